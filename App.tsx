@@ -1,42 +1,111 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { MotionSegment, MotionType, CamParams, FollowerType, SimulationPoint } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { MotionSegment, MotionType, CamParams, FollowerType, SimulationPoint, BoundaryContinuity, CamDefinition } from './types';
 import MotionDesigner from './components/MotionDesigner';
+import MotionWizard from './components/MotionWizard';
+import TabulatedImport from './components/TabulatedImport';
+import ProfileImport from './components/ProfileImport';
 import CamConfig from './components/CamConfig';
+import OptimizerPanel from './components/OptimizerPanel';
 import Charts from './components/Charts';
 import CamVisualizer from './components/CamVisualizer';
+import BarrelVisualizer from './components/BarrelVisualizer';
 import PressureAngleChart from './components/PressureAngleChart';
-import { calculateMotion } from './utils/motionMath';
-import { calculateCamProfile } from './utils/camMath';
+import CurvatureChart from './components/CurvatureChart';
+import FeasibilityReport from './components/FeasibilityReport';
+import DriveReport from './components/DriveReport';
+import SpectrumChart from './components/SpectrumChart';
+import CamProject, { CAM_COLORS } from './components/CamProject';
+import TimingDiagram from './components/TimingDiagram';
+import ManufacturingPanel from './components/ManufacturingPanel';
+import ForceChart from './components/ForceChart';
+import TorqueChart from './components/TorqueChart';
+import StressChart from './components/StressChart';
+import VibrationChart from './components/VibrationChart';
+import RollerSlipChart from './components/RollerSlipChart';
+import { compileMotion, sampleMotion, MotionProgram, matchSplineJunctions } from './utils/motionMath';
+import { analyzeContinuity } from './utils/continuityAnalysis';
+import { calculateCamProfile, compileProfile, ProfileProgram } from './utils/camMath';
+import { analyzeFeasibility } from './utils/feasibility';
+import { analyzeDrive } from './utils/positiveDrive';
+import { computeToolpath, CutterSettings, DEFAULT_CUTTER_SETTINGS } from './utils/manufacturing';
+import { analyzeDynamics, DynamicsSettings, DEFAULT_DYNAMICS_SETTINGS } from './utils/dynamics';
+import { analyzeTorque, TorqueSettings, DEFAULT_TORQUE_SETTINGS } from './utils/camTorque';
+import { analyzeContactStress, ContactStressSettings, DEFAULT_CONTACT_STRESS_SETTINGS } from './utils/contactStress';
+import { simulateVibration, compareMotionLaws, VibrationResult, VibrationSettings, DEFAULT_VIBRATION_SETTINGS } from './utils/vibration';
+import { analyzeRollerSlip, isRollerFollower, RollerSettings, DEFAULT_ROLLER_SETTINGS } from './utils/rollerSlip';
 import { Activity } from 'lucide-react';
 
 const App: React.FC = () => {
   // Updated initial state based on user request for specific duration distribution:
   // Dwell 1 (30°), Rise 1 (90°), Dwell 2 (30°), Rise 2 (90°), Dwell 3 (30°), Return 1 (90°)
   // Total = 30 + 90 + 30 + 90 + 30 + 90 = 360°
-  const [segments, setSegments] = useState<MotionSegment[]>([
-    { id: '1', type: MotionType.DWELL, duration: 30, deltaLift: 0 },
-    { id: '2', type: MotionType.CYCLOIDAL, duration: 90, deltaLift: 10 },
-    { id: '3', type: MotionType.DWELL, duration: 30, deltaLift: 0 },
-    { id: '4', type: MotionType.CYCLOIDAL, duration: 90, deltaLift: 20 },
-    { id: '5', type: MotionType.DWELL, duration: 30, deltaLift: 0 },
-    { id: '6', type: MotionType.HARMONIC, duration: 90, deltaLift: -30 },
-  ]);
-
-  const [camParams, setCamParams] = useState<CamParams>({
-    followerType: FollowerType.TRANSLATING_ROLLER,
-    baseRadius: 50,
-    followerRadius: 10,
-    offset: 0,
-    pivotDistance: 80,
-    followerLength: 60,
-    startAngleOffset: 0,
-    rotation: 'CW'
-  });
+  const [cams, setCams] = useState<CamDefinition[]>([{
+    id: 'cam-1',
+    name: 'Cam 1',
+    color: CAM_COLORS[0],
+    segments: [
+      { id: '1', type: MotionType.DWELL, duration: 30, deltaLift: 0 },
+      { id: '2', type: MotionType.CYCLOIDAL, duration: 90, deltaLift: 10 },
+      { id: '3', type: MotionType.DWELL, duration: 30, deltaLift: 0 },
+      { id: '4', type: MotionType.CYCLOIDAL, duration: 90, deltaLift: 20 },
+      { id: '5', type: MotionType.DWELL, duration: 30, deltaLift: 0 },
+      { id: '6', type: MotionType.HARMONIC, duration: 90, deltaLift: -30 },
+    ],
+    params: {
+      followerType: FollowerType.TRANSLATING_ROLLER,
+      baseRadius: 50,
+      followerRadius: 10,
+      faceRadius: 40,
+      faceAngle: 0,
+      offset: 0,
+      pivotDistance: 80,
+      followerLength: 60,
+      startAngleOffset: 0,
+      rotation: 'CW',
+      driveMode: 'spring'
+    },
+    sharedZoneLift: ''
+  }]);
+  const [activeCamId, setActiveCamId] = useState('cam-1');
+
+  // The editors and single-cam analysis work on the active cam of the project
+  const activeCam = cams.find(c => c.id === activeCamId) ?? cams[0];
+  const segments = activeCam.segments;
+  const camParams = activeCam.params;
+
+  const updateActiveCam = (changes: Partial<CamDefinition>) => {
+    setCams(prev => prev.map(c => (c.id === activeCam.id ? { ...c, ...changes } : c)));
+  };
+  // Spline ends follow their neighbours whichever editor changed the segment list
+  const setSegments = (newSegments: MotionSegment[]) => updateActiveCam({ segments: matchSplineJunctions(newSegments) });
+  const setCamParams = (newParams: CamParams) => updateActiveCam({ params: newParams });
 
   // Calculated State (For Visualization)
+  const [motionProgram, setMotionProgram] = useState<MotionProgram | null>(null);
   const [motionData, setMotionData] = useState<SimulationPoint[]>([]);
+  const [camProgram, setCamProgram] = useState<ProfileProgram | null>(null);
   const [camData, setCamData] = useState<SimulationPoint[]>([]);
+  const [continuity, setContinuity] = useState<BoundaryContinuity[]>([]);
   const [activeParams, setActiveParams] = useState<CamParams>(camParams);
+
+  // Design kept for comparison after loading motion recovered from a measured profile
+  const [referenceSegments, setReferenceSegments] = useState<MotionSegment[] | null>(null);
+  const referenceData = useMemo(() => {
+    if (!referenceSegments) return null;
+    const reference = compileMotion(referenceSegments);
+    return motionData.map(p => ({ ...p, ...reference.evaluateMotion(p.theta) }));
+  }, [referenceSegments, motionData]);
+  
+  const violations = useMemo(() => analyzeFeasibility(camData, activeParams), [camData, activeParams]);
+  const driveAnalysis = useMemo(() => analyzeDrive(camData, activeParams), [camData, activeParams]);
+
+  // Cutter path for the synced profile
+  const [cutterSettings, setCutterSettings] = useState<CutterSettings>(DEFAULT_CUTTER_SETTINGS);
+  const [showToolpath, setShowToolpath] = useState(false);
+  const toolpath = useMemo(
+    () => computeToolpath(camData, activeParams, cutterSettings),
+    [camData, activeParams, cutterSettings]
+  );
   
   // Dirty tracking for each stage
   const [motionDirty, setMotionDirty] = useState(false);
@@ -47,32 +116,78 @@ const App: React.FC = () => {
   const [isPlaying, setIsPlaying] = useState(false);
   const animationRef = useRef<number>(0);
 
+  // Camshaft speed for time-domain kinematics
+  const [camSpeed, setCamSpeed] = useState(300);
+
+  // Follower mass, spring and loads for the contact force
+  const [dynamicsSettings, setDynamicsSettings] = useState<DynamicsSettings>(DEFAULT_DYNAMICS_SETTINGS);
+  const dynamics = useMemo(
+    () => analyzeDynamics(motionData, activeParams, dynamicsSettings, camSpeed),
+    [motionData, activeParams, dynamicsSettings, camSpeed]
+  );
+
+  // Camshaft torque from the synced profile
+  const [torqueSettings, setTorqueSettings] = useState<TorqueSettings>(DEFAULT_TORQUE_SETTINGS);
+  const torque = useMemo(
+    () => analyzeTorque(camData, activeParams, dynamicsSettings, torqueSettings, camSpeed),
+    [camData, activeParams, dynamicsSettings, torqueSettings, camSpeed]
+  );
+
+  // Hertz contact stress around the synced profile
+  const [stressSettings, setStressSettings] = useState<ContactStressSettings>(DEFAULT_CONTACT_STRESS_SETTINGS);
+  const [showStress, setShowStress] = useState(false);
+  const stress = useMemo(
+    () => analyzeContactStress(camData, activeParams, dynamicsSettings, stressSettings, camSpeed),
+    [camData, activeParams, dynamicsSettings, stressSettings, camSpeed]
+  );
+
+  // Elastic follower train driven by the generated motion. The time integration is too slow to
+  // follow every keystroke, so it runs on demand and is marked stale when its inputs change.
+  const [vibrationSettings, setVibrationSettings] = useState<VibrationSettings>(DEFAULT_VIBRATION_SETTINGS);
+  const [vibration, setVibration] = useState<VibrationResult | null>(null);
+  const [vibrationDirty, setVibrationDirty] = useState(true);
+  useEffect(() => {
+    setVibrationDirty(true);
+  }, [motionProgram, activeParams, dynamicsSettings, vibrationSettings, camSpeed]);
+
+  const handleSimulateVibration = () => {
+    setVibration(motionProgram ? simulateVibration(motionProgram, activeParams, dynamicsSettings, vibrationSettings, camSpeed) : null);
+    setVibrationDirty(false);
+  };
+
+  // Roller spin and slip along the synced profile
+  const [rollerSettings, setRollerSettings] = useState<RollerSettings>(DEFAULT_ROLLER_SETTINGS);
+  const [showSlip, setShowSlip] = useState(false);
+  const slip = useMemo(
+    () => analyzeRollerSlip(camData, activeParams, dynamicsSettings, rollerSettings, camSpeed),
+    [camData, activeParams, dynamicsSettings, rollerSettings, camSpeed]
+  );
+
   const [activeTab, setActiveTab] = useState<'motion' | 'cam'>('motion');
 
   // Stage 1: Kinematic Analysis
-  const handleGenerateMotion = () => {
-    const stepSize = 0.5;
-    const mData = calculateMotion(segments, stepSize);
+  const buildMotion = () => {
+    const program = compileMotion(segments);
+    const mData = sampleMotion(program);
+    setMotionProgram(program);
     setMotionData(mData);
+    setContinuity(analyzeContinuity(segments));
     setMotionDirty(false);
+    return { program, mData };
+  };
+
+  const handleGenerateMotion = () => {
+    buildMotion();
     // After motion changes, cam profile is automatically out of date
     setCamDirty(true);
   };
 
   // Stage 2: Cam Geometry Synthesis
   const handleUpdateCam = () => {
-    if (motionData.length === 0) {
-      // If user clicks update cam before generating motion, generate motion first
-      const stepSize = 0.5;
-      const mData = calculateMotion(segments, stepSize);
-      setMotionData(mData);
-      setMotionDirty(false);
-      const cData = calculateCamProfile(mData, camParams);
-      setCamData(cData);
-    } else {
-      const cData = calculateCamProfile(motionData, camParams);
-      setCamData(cData);
-    }
+    // If user clicks update cam before generating motion, generate motion first
+    const { program, mData } = motionProgram ? { program: motionProgram, mData: motionData } : buildMotion();
+    setCamData(calculateCamProfile(mData, camParams));
+    setCamProgram(compileProfile(program, camParams));
     setActiveParams({ ...camParams });
     setCamDirty(false);
   };
@@ -113,18 +228,16 @@ const App: React.FC = () => {
     setCamDirty(true);
   }, [camParams]);
 
-  // Initial calculation on mount
+  // Full calculation on mount and whenever another cam of the project is selected
   useEffect(() => {
-    const stepSize = 0.5;
-    const mData = calculateMotion(segments, stepSize);
-    const cData = calculateCamProfile(mData, camParams);
-    setMotionData(mData);
-    setCamData(cData);
+    const { program, mData } = buildMotion();
+    setCamData(calculateCamProfile(mData, camParams));
+    setCamProgram(compileProfile(program, camParams));
     setActiveParams({ ...camParams });
-    setMotionDirty(false);
     setCamDirty(false);
+    setReferenceSegments(null);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [activeCam.id]);
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 flex flex-col font-sans">
@@ -142,6 +255,13 @@ const App: React.FC = () => {
 
       <main className="flex-1 container mx-auto p-4 grid grid-cols-1 lg:grid-cols-12 gap-6">
         <div className="lg:col-span-4 xl:col-span-3 flex flex-col gap-6 h-[calc(100vh-120px)] lg:h-auto">
+          <CamProject 
+            cams={cams} 
+            activeCamId={activeCam.id} 
+            onSelect={setActiveCamId} 
+            onChange={setCams} 
+          />
+
           <div className="flex rounded-lg bg-slate-900 p-1 border border-slate-800 shrink-0">
             <button 
               onClick={() => setActiveTab('motion')}
@@ -159,36 +279,142 @@ const App: React.FC = () => {
 
           <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-4">
             {activeTab === 'motion' ? (
-              <MotionDesigner 
-                segments={segments} 
-                onSegmentsChange={setSegments} 
-                onGenerateMotion={handleGenerateMotion}
-                isDirty={motionDirty}
-              />
+              <>
+                <MotionDesigner 
+                  segments={segments} 
+                  onSegmentsChange={setSegments} 
+                  onGenerateMotion={handleGenerateMotion}
+                  isDirty={motionDirty}
+                />
+                <MotionWizard onApply={setSegments} />
+                <TabulatedImport segments={segments} onSegmentsChange={setSegments} />
+                <ProfileImport
+                  segments={segments}
+                  params={camParams}
+                  onSegmentsChange={setSegments}
+                  onReferenceChange={setReferenceSegments}
+                />
+              </>
             ) : (
-              <CamConfig params={camParams} onChange={setCamParams} />
+              <>
+                <CamConfig params={camParams} onChange={setCamParams} />
+                <OptimizerPanel motion={motionData} params={camParams} onApply={setCamParams} />
+                {camParams.followerType !== FollowerType.BARREL_ROLLER && (
+                  <ManufacturingPanel
+                    toolpath={toolpath}
+                    settings={cutterSettings}
+                    onSettingsChange={setCutterSettings}
+                    showPreview={showToolpath}
+                    onShowPreviewChange={setShowToolpath}
+                    programName={activeCam.name}
+                  />
+                )}
+              </>
             )}
             
             <PressureAngleChart data={camData} currentTheta={Math.abs(currentTheta)} />
+            <CurvatureChart data={camData} params={activeParams} violations={violations} currentTheta={Math.abs(currentTheta)} />
+            <FeasibilityReport violations={violations} />
+            {driveAnalysis && (
+              <DriveReport analysis={driveAnalysis} isOscillating={activeParams.followerType.includes('Oscillating')} />
+            )}
           </div>
         </div>
 
         <div className="lg:col-span-8 xl:col-span-9 flex flex-col gap-6">
           <section className="space-y-4">
-             <Charts data={motionData} currentTheta={Math.abs(currentTheta)} />
+             <Charts 
+                data={motionData} 
+                currentTheta={Math.abs(currentTheta)} 
+                boundaries={continuity}
+                rpm={camSpeed}
+                onRpmChange={setCamSpeed}
+                displacementUnit={activeParams.followerType.includes('Oscillating') ? 'deg' : 'mm'}
+                reference={referenceData}
+                onClearReference={() => setReferenceSegments(null)}
+             />
+             <ForceChart
+                analysis={dynamics}
+                settings={dynamicsSettings}
+                onSettingsChange={setDynamicsSettings}
+                rpm={camSpeed}
+                onRpmChange={setCamSpeed}
+                currentTheta={Math.abs(currentTheta)}
+                isOscillating={activeParams.followerType.includes('Oscillating')}
+             />
+             <TorqueChart
+                analysis={torque}
+                settings={torqueSettings}
+                onSettingsChange={setTorqueSettings}
+                currentTheta={Math.abs(currentTheta)}
+                programName={activeCam.name}
+             />
+             <StressChart
+                analysis={stress}
+                settings={stressSettings}
+                onSettingsChange={setStressSettings}
+                showOnProfile={showStress}
+                onShowOnProfileChange={setShowStress}
+                currentTheta={Math.abs(currentTheta)}
+                isKnifeEdge={activeParams.followerType === FollowerType.TRANSLATING_KNIFE_EDGE}
+             />
+             <VibrationChart
+                result={vibration}
+                settings={vibrationSettings}
+                onSettingsChange={setVibrationSettings}
+                onSimulate={handleSimulateVibration}
+                isDirty={vibrationDirty}
+                onCompare={() => motionProgram
+                  ? compareMotionLaws(motionProgram.segments, activeParams, dynamicsSettings, vibrationSettings, camSpeed)
+                  : []}
+                currentTheta={Math.abs(currentTheta)}
+                unit={activeParams.followerType.includes('Oscillating') ? '°' : 'mm'}
+             />
+             {isRollerFollower(activeParams.followerType) && (
+               <RollerSlipChart
+                  analysis={slip}
+                  settings={rollerSettings}
+                  onSettingsChange={setRollerSettings}
+                  showOnProfile={showSlip}
+                  onShowOnProfileChange={setShowSlip}
+                  currentTheta={Math.abs(currentTheta)}
+               />
+             )}
+             <SpectrumChart data={motionData} currentTheta={Math.abs(currentTheta)} />
+             <TimingDiagram cams={cams} />
           </section>
 
           <section className="flex-1 min-h-[500px]">
-             <CamVisualizer 
-                data={camData} 
-                params={activeParams} 
-                currentTheta={currentTheta}
-                isPlaying={isPlaying}
-                onPlayChange={setIsPlaying}
-                onThetaChange={setCurrentTheta}
-                onCalculate={handleUpdateCam}
-                isDirty={camDirty}
-             />
+             {activeParams.followerType === FollowerType.BARREL_ROLLER ? (
+               <BarrelVisualizer
+                  data={camData}
+                  profile={camProgram}
+                  violations={violations}
+                  params={activeParams}
+                  currentTheta={currentTheta}
+                  isPlaying={isPlaying}
+                  onPlayChange={setIsPlaying}
+                  onThetaChange={setCurrentTheta}
+                  onCalculate={handleUpdateCam}
+                  isDirty={camDirty}
+               />
+             ) : (
+               <CamVisualizer 
+                  data={camData} 
+                  profile={camProgram}
+                  violations={violations}
+                  toolpath={showToolpath ? toolpath : null}
+                  stress={showStress ? stress : null}
+                  slip={showSlip ? slip : null}
+                  params={activeParams} 
+                  currentTheta={currentTheta}
+                  isPlaying={isPlaying}
+                  onPlayChange={setIsPlaying}
+                  onThetaChange={setCurrentTheta}
+                  onCalculate={handleUpdateCam}
+                  isDirty={camDirty}
+               />
+             )}
           </section>
         </div>
       </main>
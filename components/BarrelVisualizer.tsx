@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { SimulationPoint, CamParams, FeasibilityViolation } from '../types';
+import { ProfileProgram } from '../utils/camMath';
+import { isInViolation } from '../utils/feasibility';
+import { Play, Pause, RotateCcw, RefreshCw } from 'lucide-react';
+
+interface BarrelVisualizerProps {
+  data: SimulationPoint[];
+  profile: ProfileProgram | null;
+  violations?: FeasibilityViolation[];
+  params: CamParams;
+  currentTheta: number;
+  isPlaying: boolean;
+  onPlayChange: (playing: boolean) => void;
+  onThetaChange: (theta: number) => void;
+  onCalculate: () => void;
+  isDirty: boolean;
+}
+
+type Point = [number, number];
+
+// Barrel cam: developed (unrolled) groove on the pitch cylinder and a wireframe of the cylinder.
+// Developed coordinates come from calculateCamProfile: x = circumferential position, y = axial.
+const BarrelVisualizer: React.FC<BarrelVisualizerProps> = ({
+  data,
+  profile,
+  violations = [],
+  params,
+  currentTheta,
+  isPlaying,
+  onPlayChange,
+  onThetaChange,
+  onCalculate,
+  isDirty
+}) => {
+  const developedRef = useRef<SVGSVGElement>(null);
+  const wireframeRef = useRef<SVGSVGElement>(null);
+
+  const theta = Math.abs(currentTheta);
+  const sgn = params.rotation === 'CW' ? 1 : -1;
+  const Rp = params.baseRadius;
+  const r0 = params.followerRadius;
+  const lift = profile ? profile.motion.evaluateMotion(theta).s : 0;
+  const current = profile ? profile.evaluateProfile(theta) : null;
+
+  const walls = useMemo(() => data.filter(p => p.secondary), [data]);
+  // Axial extent of the cylinder: the groove plus a land of one roller radius on each side
+  const [zMin, zMax] = useMemo(() => walls.length
+    ? [d3.min(walls, p => p.y)! - r0, d3.max(walls, p => p.secondary!.y)! + r0]
+    : [0, 0], [walls, r0]);
+
+  // 1. Developed view
+  useEffect(() => {
+    if (!developedRef.current || walls.length === 0) return;
+    const svg = d3.select(developedRef.current);
+    svg.selectAll("*").remove();
+
+    const width = developedRef.current.clientWidth;
+    const height = developedRef.current.clientHeight;
+    const margin = { top: 10, right: 15, bottom: 28, left: 40 };
+
+    // Equal scales on both axes so the groove slope shows the true pressure angle
+    const uExtent = d3.extent(walls, p => p.x) as Point;
+    const uRange = uExtent[1] - uExtent[0] || 1;
+    const zRange = zMax - zMin || 1;
+    const scale = Math.min((width - margin.left - margin.right) / uRange, (height - margin.top - margin.bottom) / zRange);
+    const xScale = d3.scaleLinear().domain(uExtent).range([margin.left, margin.left + uRange * scale]);
+    const yScale = d3.scaleLinear().domain([zMin, zMax]).range([margin.top + zRange * scale, margin.top]);
+
+    const g = svg.append("g");
+    g.append("g")
+      .attr("transform", `translate(0,${yScale(zMin)})`)
+      .call(d3.axisBottom(xScale).ticks(8))
+      .attr("color", "#475569");
+    g.append("g")
+      .attr("transform", `translate(${margin.left},0)`)
+      .call(d3.axisLeft(yScale).ticks(4))
+      .attr("color", "#475569");
+
+    const line = d3.line<Point>().x(p => xScale(p[0])).y(p => yScale(p[1]));
+    const lower: Point[] = walls.map(p => [p.x, p.y]);
+    const upper: Point[] = walls.map(p => [p.secondary!.x, p.secondary!.y]);
+    const center: Point[] = walls.map(p => [sgn * Rp * p.theta * Math.PI / 180, p.s]);
+
+    // Groove band between the walls
+    g.append("path")
+      .attr("d", line([...lower, ...upper.slice().reverse()]) + "Z")
+      .attr("fill", "#020617")
+      .attr("stroke", "none");
+    g.append("path").attr("d", line(lower)).attr("fill", "none").attr("stroke", "#60a5fa").attr("stroke-width", 1.5);
+    g.append("path").attr("d", line(upper)).attr("fill", "none").attr("stroke", "#c084fc").attr("stroke-width", 1.5);
+    g.append("path").attr("d", line(center)).attr("fill", "none").attr("stroke", "#475569").attr("stroke-dasharray", "4 3");
+
+    // Undercut ranges on the lower wall
+    violations.forEach(v => {
+      const arc: Point[] = walls.filter(p => isInViolation(p.theta, v)).map(p => [p.x, p.y]);
+      if (arc.length > 1) {
+        g.append("path").attr("d", line(arc)).attr("fill", "none").attr("stroke", "#ef4444").attr("stroke-width", 3);
+      }
+    });
+
+    // Roller at the current cam angle
+    const u = sgn * Rp * theta * Math.PI / 180;
+    g.append("line")
+      .attr("x1", xScale(u)).attr("y1", yScale(zMin)).attr("x2", xScale(u)).attr("y2", yScale(zMax))
+      .attr("stroke", "white").attr("stroke-dasharray", "3 3").attr("opacity", 0.4);
+    g.append("circle")
+      .attr("cx", xScale(u)).attr("cy", yScale(lift))
+      .attr("r", Math.max(2, r0 * scale))
+      .attr("fill", "#f59e0b").attr("fill-opacity", 0.6)
+      .attr("stroke", "#f59e0b").attr("stroke-width", 1.5);
+  }, [walls, violations, zMin, zMax, sgn, Rp, r0, theta, lift]);
+
+  // 2. Wireframe: pitch cylinder seen slightly from above, roller at the front
+  useEffect(() => {
+    if (!wireframeRef.current || walls.length === 0) return;
+    const svg = d3.select(wireframeRef.current);
+    svg.selectAll("*").remove();
+
+    const width = wireframeRef.current.clientWidth;
+    const height = wireframeRef.current.clientHeight;
+    const elevation = 0.3; // Apparent height of the end ellipses relative to their width
+    const zMid = (zMin + zMax) / 2;
+    const k = Math.min((width * 0.8) / (2 * Rp), (height * 0.8) / (zMax - zMin + 2 * elevation * Rp));
+    const cx = width / 2;
+    const cy = height / 2;
+
+    // Cam-frame angle phi is at phi - sgn theta in the fixed frame; the roller sits at 0 (front)
+    const camAngle = sgn * theta * Math.PI / 180;
+    const project = (phi: number, z: number): Point => [
+      cx + k * Rp * Math.sin(phi - camAngle),
+      cy - k * (z - zMid) + k * elevation * Rp * Math.cos(phi - camAngle)
+    ];
+    const isFront = (phi: number) => Math.cos(phi - camAngle) >= 0;
+
+    // Polyline split into front and back path strings
+    const drawCurve = (pts: { phi: number; z: number }[], color: string, width: number) => {
+      let front = '';
+      let back = '';
+      pts.forEach((p, i) => {
+        const [x, y] = project(p.phi, p.z);
+        const visible = isFront(p.phi);
+        const prevVisible = i > 0 && isFront(pts[i - 1].phi);
+        const cmd = `${x.toFixed(1)},${y.toFixed(1)}`;
+        if (visible) front += (i > 0 && prevVisible ? 'L' : 'M') + cmd;
+        else back += (i > 0 && !prevVisible ? 'L' : 'M') + cmd;
+      });
+      svg.append("path").attr("d", back).attr("fill", "none").attr("stroke", color).attr("stroke-width", width).attr("opacity", 0.2);
+      svg.append("path").attr("d", front).attr("fill", "none").attr("stroke", color).attr("stroke-width", width);
+    };
+
+    const ring = (z: number) => d3.range(0, 2 * Math.PI + 1e-9, Math.PI / 36).map(phi => ({ phi, z }));
+    drawCurve(ring(zMin), "#475569", 1);
+    drawCurve(ring(zMax), "#475569", 1);
+    d3.range(0, 2 * Math.PI, Math.PI / 6).forEach(phi => {
+      drawCurve([{ phi, z: zMin }, { phi, z: zMax }], "#334155", 1);
+    });
+
+    drawCurve(walls.map(p => ({ phi: p.x / Rp, z: p.y })), "#60a5fa", 1.5);
+    drawCurve(walls.map(p => ({ phi: p.secondary!.x / Rp, z: p.secondary!.y })), "#c084fc", 1.5);
+
+    // Roller seen along its axis, which points at the viewer
+    const [rx, ry] = project(camAngle, lift);
+    svg.append("circle")
+      .attr("cx", rx).attr("cy", ry)
+      .attr("r", Math.max(2, k * r0))
+      .attr("fill", "#f59e0b").attr("fill-opacity", 0.6)
+      .attr("stroke", "#f59e0b").attr("stroke-width", 1.5);
+  }, [walls, zMin, zMax, sgn, Rp, r0, theta, lift]);
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 rounded-lg shadow-lg border border-slate-800 p-4">
+      <div className="flex justify-between items-center mb-2">
+         <h2 className="text-xl font-bold text-slate-100">Barrel Cam</h2>
+         <div className="flex gap-2">
+            <button
+               onClick={onCalculate}
+               disabled={!isDirty}
+               className={`flex items-center gap-1 px-3 py-2 rounded text-xs font-bold transition-all ${
+                 isDirty ? 'bg-blue-600 hover:bg-blue-500 text-white shadow-lg' : 'bg-slate-800 text-slate-500'
+               }`}
+            >
+               <RefreshCw size={14} className={isDirty ? 'animate-spin' : ''} />
+               <span>{isDirty ? 'Sync Profile' : 'Synced'}</span>
+            </button>
+            <button
+              onClick={() => onPlayChange(!isPlaying)}
+              className="p-2 bg-slate-800 hover:bg-slate-700 rounded text-slate-200"
+            >
+              {isPlaying ? <Pause size={18} /> : <Play size={18} />}
+            </button>
+            <button
+               onClick={() => { onPlayChange(false); onThetaChange(0); }}
+               className="p-2 bg-slate-800 hover:bg-slate-700 rounded text-slate-200"
+            >
+              <RotateCcw size={18} />
+            </button>
+         </div>
+      </div>
+
+      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Developed Groove (pitch cylinder)</div>
+      <div className="h-48 relative border border-slate-800 rounded bg-slate-950 overflow-hidden">
+        <svg ref={developedRef} width="100%" height="100%" className="absolute inset-0" />
+      </div>
+
+      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mt-3 mb-1">Wireframe</div>
+      <div className="flex-1 min-h-[260px] relative border border-slate-800 rounded bg-slate-950 overflow-hidden">
+        <svg ref={wireframeRef} width="100%" height="100%" className="absolute inset-0" />
+
+        <div className="absolute bottom-4 left-4 text-[10px] font-mono text-slate-400 bg-slate-900/90 px-2 py-1 rounded border border-slate-700 pointer-events-none">
+           θ: {theta.toFixed(1)}°
+        </div>
+        {current && (
+          <div className="absolute top-4 right-4 flex flex-col items-end gap-1 pointer-events-none">
+            <div className="text-[10px] font-mono text-red-400 bg-slate-900/90 px-2 py-1 rounded border border-red-900/30">
+              PA: {current.pressureAngle.toFixed(1)}°
+            </div>
+            <div className="text-[10px] font-mono text-sky-300 bg-slate-900/90 px-2 py-1 rounded border border-slate-700">
+              Groove width: {(2 * r0).toFixed(1)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-4 px-2">
+         <input
+           type="range" min="0" max="360" step="0.5"
+           value={theta}
+           onChange={(e) => { onPlayChange(false); onThetaChange(Number(e.target.value)); }}
+           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+         />
+      </div>
+    </div>
+  );
+};
+
+export default BarrelVisualizer;
@@ -1,5 +1,6 @@
 import React from 'react';
-import { CamParams, FollowerType } from '../types';
+import { CamParams, FollowerType, DriveMode } from '../types';
+import { supportsGroove } from '../utils/positiveDrive';
 
 interface CamConfigProps {
   params: CamParams;
@@ -8,11 +9,23 @@ interface CamConfigProps {
 
 const CamConfig: React.FC<CamConfigProps> = ({ params, onChange }) => {
   const handleChange = (field: keyof CamParams, value: any) => {
-    onChange({ ...params, [field]: value });
+    const next = { ...params, [field]: value };
+    // Only rollers can run in a groove; barrel cams always do
+    if (next.driveMode === 'groove' && !supportsGroove(next.followerType)) next.driveMode = 'spring';
+    if (next.followerType === FollowerType.BARREL_ROLLER) next.driveMode = 'groove';
+    onChange(next);
   };
 
+  const driveModes: { mode: DriveMode; label: string }[] = [
+    { mode: 'spring', label: 'Spring' },
+    { mode: 'groove', label: 'Groove' },
+    { mode: 'conjugate', label: 'Conjugate' }
+  ];
+
   const isOscillating = params.followerType.includes('Oscillating');
   const isRoller = params.followerType.includes('Roller');
+  const isSpherical = params.followerType.includes('Spherical');
+  const isBarrel = params.followerType === FollowerType.BARREL_ROLLER;
 
   return (
     <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-800">
@@ -33,9 +46,32 @@ const CamConfig: React.FC<CamConfigProps> = ({ params, onChange }) => {
           </select>
         </div>
 
-        {/* Base Radius */}
+        {/* Drive Mode */}
+        {!isBarrel && (
+          <div className="col-span-2">
+            <label className="block text-sm text-slate-400 mb-1">Follower Return</label>
+            <div className="flex bg-slate-950 rounded border border-slate-700 p-1">
+               {driveModes.map(({ mode, label }) => {
+                 const disabled = mode === 'groove' && !supportsGroove(params.followerType);
+                 return (
+                   <button
+                     key={mode}
+                     disabled={disabled}
+                     title={disabled ? 'Groove cams need a roller follower' : undefined}
+                     onClick={() => handleChange('driveMode', mode)}
+                     className={`flex-1 py-1 px-2 rounded text-sm ${params.driveMode === mode ? 'bg-blue-600 text-white' : disabled ? 'text-slate-600 cursor-default' : 'text-slate-400 hover:text-white'}`}
+                   >
+                     {label}
+                   </button>
+                 );
+               })}
+            </div>
+          </div>
+        )}
+
+        {/* Base Radius (pitch cylinder radius for barrel cams) */}
         <div>
-          <label className="block text-sm text-slate-400 mb-1">Base Radius (rb)</label>
+          <label className="block text-sm text-slate-400 mb-1">{isBarrel ? 'Pitch Radius (Rp)' : 'Base Radius (rb)'}</label>
           <input 
             type="number"
             step="0.1"
@@ -75,8 +111,38 @@ const CamConfig: React.FC<CamConfigProps> = ({ params, onChange }) => {
           </div>
         )}
 
+        {/* Face Angle (Translating flat-faced only) */}
+        {params.followerType === FollowerType.TRANSLATING_FLAT && (
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Face Angle (δ°)</label>
+            <input 
+              type="number"
+              step="0.5"
+              min="-60"
+              max="60"
+              value={params.faceAngle}
+              onChange={(e) => handleChange('faceAngle', parseFloat(e.target.value))}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-slate-200"
+            />
+          </div>
+        )}
+
+        {/* Face Radius (Spherical-faced only) */}
+        {isSpherical && (
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Face Radius (rf)</label>
+            <input 
+              type="number"
+              step="0.1"
+              value={params.faceRadius}
+              onChange={(e) => handleChange('faceRadius', parseFloat(e.target.value))}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-3 py-2 text-slate-200"
+            />
+          </div>
+        )}
+
         {/* Offset (Translating only) */}
-        {!isOscillating && (
+        {!isOscillating && !isBarrel && (
           <div>
             <label className="block text-sm text-slate-400 mb-1">Offset (d)</label>
             <input 
@@ -106,7 +172,7 @@ const CamConfig: React.FC<CamConfigProps> = ({ params, onChange }) => {
         {/* Follower Length (Oscillating only) */}
         {isOscillating && (
           <div>
-             <label className="block text-sm text-slate-400 mb-1">Follower Length (r3)</label>
+             <label className="block text-sm text-slate-400 mb-1">{isSpherical ? 'Length to Face Center (r3)' : 'Follower Length (r3)'}</label>
              <input 
               type="number"
               step="0.1"
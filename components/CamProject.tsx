@@ -0,0 +1,129 @@
+import React from 'react';
+import { CamDefinition } from '../types';
+import { Plus, Copy, Trash2 } from 'lucide-react';
+
+interface CamProjectProps {
+  cams: CamDefinition[];
+  activeCamId: string;
+  onSelect: (id: string) => void;
+  onChange: (cams: CamDefinition[]) => void;
+}
+
+export const CAM_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ec4899', '#a855f7', '#06b6d4', '#ef4444', '#84cc16'];
+
+const CamProject: React.FC<CamProjectProps> = ({ cams, activeCamId, onSelect, onChange }) => {
+  const activeIndex = Math.max(0, cams.findIndex(c => c.id === activeCamId));
+  const active = cams[activeIndex];
+
+  const updateActive = (changes: Partial<CamDefinition>) => {
+    const newCams = [...cams];
+    newCams[activeIndex] = { ...active, ...changes };
+    onChange(newCams);
+  };
+
+  const addCam = (source?: CamDefinition) => {
+    const id = Math.random().toString(36).substr(2, 9);
+    const base = source ?? active;
+    const newCam: CamDefinition = {
+      ...base,
+      id,
+      name: source ? `${source.name} copy` : `Cam ${cams.length + 1}`,
+      color: CAM_COLORS[cams.length % CAM_COLORS.length],
+      segments: base.segments.map(s => ({ ...s, id: Math.random().toString(36).substr(2, 9) })),
+      params: { ...base.params }
+    };
+    onChange([...cams, newCam]);
+    onSelect(id);
+  };
+
+  const removeActive = () => {
+    if (cams.length <= 1) return;
+    const newCams = cams.filter(c => c.id !== activeCamId);
+    onChange(newCams);
+    onSelect(newCams[Math.min(activeIndex, newCams.length - 1)].id);
+  };
+
+  const handleZoneLiftChange = (rawValue: string) => {
+    if (rawValue !== '' && rawValue !== '-' && !rawValue.endsWith('.') && isNaN(Number(rawValue))) return;
+    updateActive({ sharedZoneLift: rawValue });
+  };
+
+  return (
+    <div className="bg-slate-900 p-3 rounded-lg border border-slate-800 shrink-0 space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {cams.map(cam => (
+          <button
+            key={cam.id}
+            onClick={() => onSelect(cam.id)}
+            className={`flex items-center gap-1.5 px-2 py-1 rounded text-xs font-medium transition-all border ${
+              cam.id === activeCamId ? 'bg-slate-800 text-white border-slate-600' : 'text-slate-400 border-transparent hover:text-slate-200'
+            }`}
+          >
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: cam.color }} />
+            {cam.name || 'Untitled'}
+          </button>
+        ))}
+        <button
+          onClick={() => addCam()}
+          title="Add cam"
+          className="p-1 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800"
+        >
+          <Plus size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_auto] gap-2 items-end">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Name</label>
+          <input
+            type="text"
+            value={active.name}
+            onChange={(e) => updateActive({ name: e.target.value })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200"
+          />
+        </div>
+        <button
+          onClick={() => addCam(active)}
+          title="Duplicate cam"
+          className="p-1.5 rounded text-slate-500 hover:text-slate-200 hover:bg-slate-800"
+        >
+          <Copy size={14} />
+        </button>
+        <button
+          onClick={removeActive}
+          disabled={cams.length <= 1}
+          title="Remove cam"
+          className="p-1.5 rounded text-slate-500 hover:text-red-400 hover:bg-red-400/10 disabled:opacity-30"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Phase Offset (°)</label>
+          <input
+            type="number"
+            step="1"
+            value={active.params.startAngleOffset}
+            onChange={(e) => updateActive({ params: { ...active.params, startAngleOffset: parseFloat(e.target.value) || 0 } })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+          />
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Shared Zone Lift</label>
+          <input
+            type="text"
+            inputMode="decimal"
+            value={active.sharedZoneLift}
+            placeholder="not shared"
+            onChange={(e) => handleZoneLiftChange(e.target.value)}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CamProject;
@@ -1,10 +1,20 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as d3 from 'd3';
-import { SimulationPoint, CamParams, FollowerType } from '../types';
+import { SimulationPoint, CamParams, FollowerType, FeasibilityViolation } from '../types';
+import { ProfileProgram, getFaceLengthRequirement, getContactRadius, getInitialArmAngle } from '../utils/camMath';
+import { Toolpath } from '../utils/manufacturing';
+import { getViolationKind } from '../utils/feasibility';
+import { StressAnalysis } from '../utils/contactStress';
+import { RollerSlipAnalysis } from '../utils/rollerSlip';
 import { Play, Pause, RotateCcw, Layers, RefreshCw } from 'lucide-react';
 
 interface CamVisualizerProps {
   data: SimulationPoint[];
+  profile: ProfileProgram | null; // Exact evaluator matching `data`
+  violations?: FeasibilityViolation[]; // Undercut / cusp ranges highlighted on the profile
+  toolpath?: Toolpath | null; // Cutter center path drawn over the cam
+  stress?: StressAnalysis | null; // Colors the loaded surface by contact stress (aligned with `data`)
+  slip?: RollerSlipAnalysis | null; // Roller skid-risk ranges marked on the loaded surface (aligned with `data`)
   params: CamParams;
   currentTheta: number; 
   isPlaying: boolean;
@@ -16,6 +26,11 @@ interface CamVisualizerProps {
 
 const CamVisualizer: React.FC<CamVisualizerProps> = ({ 
   data, 
+  profile,
+  violations = [],
+  toolpath = null,
+  stress = null,
+  slip = null,
   params, 
   currentTheta, 
   isPlaying, 
@@ -35,20 +50,35 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
     , data[0]);
   }, [data]);
 
-  // Helper: Linear interpolation for smooth follower movement
-  const getInterpolatedLift = (theta: number) => {
-    if (data.length === 0) return 0;
-    let t = theta % 360;
-    if (t < 0) t += 360;
-    const step = 360 / (data.length - 1);
-    const indexFloat = t / step;
-    const idx1 = Math.floor(indexFloat);
-    const idx2 = Math.min(idx1 + 1, data.length - 1);
-    const ratio = indexFloat - idx1;
-    const s1 = data[idx1]?.s ?? 0;
-    const s2 = data[idx2]?.s ?? 0;
-    return s1 + (s2 - s1) * ratio;
-  };
+  // Sharpest point of the profile (smallest |rho|), preferring points that undercut or cusp.
+  // A concave flank under a roller, knife edge or spherical face is not a violation.
+  const minRhoPoint = useMemo(() => {
+    if (!data.length) return null;
+    const violating = data.filter(p => getViolationKind(p, params) !== null);
+    const candidates = violating.length ? violating : data;
+    const point = candidates.reduce(
+      (min, p) => (Math.abs(p.radiusOfCurvature) < Math.abs(min.radiusOfCurvature) ? p : min),
+      candidates[0]
+    );
+    return { point, kind: getViolationKind(point, params) };
+  }, [data, params]);
+
+  const faceLength = useMemo(() => getFaceLengthRequirement(data), [data]);
+
+  // Second surface of a positive-drive cam (outer groove wall or conjugate disc)
+  const secondary = useMemo(
+    () => data.filter(p => p.secondary).map(p => p.secondary!),
+    [data]
+  );
+  // The conjugate follower runs the complementary lift sMin + sMax - s
+  const liftSum = useMemo(
+    () => data.length ? Math.min(...data.map(p => p.s)) + Math.max(...data.map(p => p.s)) : 0,
+    [data]
+  );
+  const isConjugate = params.driveMode === 'conjugate' && secondary.length > 0;
+
+  // Helper: Exact follower lift at any cam angle
+  const getLift = (theta: number) => profile ? profile.motion.evaluateMotion(theta).s : 0;
 
   useEffect(() => {
     if (!svgRef.current || data.length === 0) return;
@@ -61,17 +91,24 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
     const margin = 50;
 
     // 1. CALCULATE WORLD BOUNDS
-    const camMaxR = d3.max(data, d => Math.sqrt(d.x * d.x + d.y * d.y)) || params.baseRadius;
+    const camMaxR = Math.max(
+      d3.max(data, d => Math.sqrt(d.x * d.x + d.y * d.y)) || params.baseRadius,
+      toolpath ? d3.max(toolpath.points, p => Math.sqrt(p.x * p.x + p.y * p.y)) || 0 : 0,
+      d3.max(secondary, p => Math.sqrt(p.x * p.x + p.y * p.y)) || 0
+    );
     
     let worldExtent = camMaxR;
     const isOscillating = params.followerType.includes('Oscillating');
+    // Roller, knife-edge and spherical followers are drawn around the moving contact center
+    const contactRadius = getContactRadius(params);
+    const r0 = contactRadius ?? 0;
     
     if (isOscillating) {
-      worldExtent = Math.max(worldExtent, params.pivotDistance, params.pivotDistance + params.followerRadius);
+      worldExtent = Math.max(worldExtent, params.pivotDistance, params.pivotDistance + r0);
       worldExtent = Math.max(worldExtent, params.pivotDistance + params.followerLength);
     } else {
       worldExtent = Math.max(worldExtent, params.baseRadius * 2.5);
-      worldExtent = Math.max(worldExtent, Math.abs(params.offset) + params.followerRadius);
+      worldExtent = Math.max(worldExtent, Math.abs(params.offset) + r0);
     }
 
     // 2. SCALE FACTOR (Pixels per World Unit)
@@ -83,7 +120,8 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
     const baseStroke = 1.5;
     const axisColor = "#1e293b";
 
-    const xOffset = isOscillating ? 0 : -toPx(params.baseRadius * 0.5);
+    // Translating followers extend to the right; a conjugate yoke extends both ways
+    const xOffset = isOscillating || isConjugate ? 0 : -toPx(params.baseRadius * 0.5);
     const g = svg.append("g")
       .attr("transform", `translate(${width/2 + xOffset},${height/2})`);
 
@@ -94,6 +132,23 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
     // Cam Group (Rotates)
     const camGroup = g.append("g").attr("transform", `rotate(${currentTheta})`);
 
+    // Groove cam: disc with the groove cut between the outer wall and the inner profile
+    if (params.driveMode === 'groove' && secondary.length > 0) {
+      const outerR = d3.max(secondary, p => Math.sqrt(p.x * p.x + p.y * p.y)) || 0;
+      camGroup.append("circle")
+        .attr("r", toPx(outerR + params.followerRadius))
+        .attr("fill", "#1e293b")
+        .attr("fill-opacity", 0.7)
+        .attr("stroke", "#334155")
+        .attr("stroke-width", baseStroke);
+      camGroup.append("path")
+        .datum(secondary)
+        .attr("fill", "#020617")
+        .attr("stroke", "#c084fc")
+        .attr("stroke-width", baseStroke)
+        .attr("d", d3.line<{ x: number; y: number }>().x(p => toPx(p.x)).y(p => toPx(-p.y)).curve(d3.curveLinearClosed));
+    }
+
     // Profile Path
     const lineGenerator = d3.line<SimulationPoint>()
       .x(d => toPx(d.x))
@@ -108,6 +163,89 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
       .attr("stroke-width", baseStroke)
       .attr("d", lineGenerator);
 
+    // Conjugate cam: second disc on the same shaft, seen through the first
+    if (isConjugate) {
+      camGroup.append("path")
+        .datum(secondary)
+        .attr("fill", "none")
+        .attr("stroke", "#c084fc")
+        .attr("stroke-width", baseStroke)
+        .attr("stroke-dasharray", "6 3")
+        .attr("d", d3.line<{ x: number; y: number }>().x(p => toPx(p.x)).y(p => toPx(-p.y)).curve(d3.curveLinearClosed));
+    }
+
+    // Contact stress on the loaded surface, relative to the allowable stress
+    if (stress && stress.points.length === data.length) {
+      data.slice(0, -1).forEach((p, i) => {
+        const { stress: value, onSecondary } = stress.points[i];
+        const from = onSecondary && p.secondary ? p.secondary : p;
+        const next = data[i + 1];
+        const to = onSecondary && next.secondary ? next.secondary : next;
+        camGroup.append("line")
+          .attr("x1", toPx(from.x)).attr("y1", toPx(-from.y))
+          .attr("x2", toPx(to.x)).attr("y2", toPx(-to.y))
+          .attr("stroke", value === null ? "#475569" : d3.interpolateTurbo(Math.min(1, value / stress.allowableStress)))
+          .attr("stroke-width", baseStroke * 2.5)
+          .attr("stroke-linecap", "round");
+      });
+    }
+
+    // Roller skid risk: traction cannot give the roller its pure-rolling acceleration
+    if (slip && slip.points.length === data.length) {
+      const inSkid = (theta: number) => slip.skidRanges.some(r =>
+        r.startAngle <= r.endAngle ? theta >= r.startAngle && theta <= r.endAngle : theta >= r.startAngle || theta <= r.endAngle);
+      data.slice(0, -1).forEach((p, i) => {
+        const next = data[i + 1];
+        if (!inSkid(p.theta) || !inSkid(next.theta)) return;
+        const { onSecondary } = slip.points[i];
+        const from = onSecondary && p.secondary ? p.secondary : p;
+        const to = onSecondary && next.secondary ? next.secondary : next;
+        camGroup.append("line")
+          .attr("x1", toPx(from.x)).attr("y1", toPx(-from.y))
+          .attr("x2", toPx(to.x)).attr("y2", toPx(-to.y))
+          .attr("stroke", "#f97316")
+          .attr("stroke-width", baseStroke * 3)
+          .attr("stroke-linecap", "round");
+      });
+    }
+
+    // Undercut / cusp arcs (wrapping ranges continue through 0°)
+    const arcGenerator = d3.line<SimulationPoint>()
+      .x(d => toPx(d.x))
+      .y(d => toPx(-d.y));
+    violations.forEach(v => {
+      const arc = v.startAngle <= v.endAngle
+        ? data.filter(p => p.theta >= v.startAngle && p.theta <= v.endAngle)
+        : [...data.filter(p => p.theta >= v.startAngle), ...data.filter(p => p.theta <= v.endAngle)];
+      camGroup.append("path")
+        .datum(arc)
+        .attr("fill", "none")
+        .attr("stroke", "#ef4444")
+        .attr("stroke-width", baseStroke * 3)
+        .attr("stroke-linecap", "round")
+        .attr("d", arcGenerator);
+    });
+
+    // Cutter center path with the lead-in move and the cutter at the start point
+    if (toolpath) {
+      camGroup.append("path")
+        .datum(toolpath.points)
+        .attr("fill", "none")
+        .attr("stroke", "#34d399")
+        .attr("stroke-width", 1)
+        .attr("stroke-dasharray", "4 2")
+        .attr("d", d3.line<{ x: number; y: number }>().x(p => toPx(p.x)).y(p => toPx(-p.y)).curve(d3.curveLinearClosed));
+      camGroup.append("line")
+        .attr("x1", toPx(toolpath.leadStart.x)).attr("y1", toPx(-toolpath.leadStart.y))
+        .attr("x2", toPx(toolpath.start.x)).attr("y2", toPx(-toolpath.start.y))
+        .attr("stroke", "#34d399").attr("stroke-width", 1);
+      camGroup.append("circle")
+        .attr("cx", toPx(toolpath.start.x)).attr("cy", toPx(-toolpath.start.y))
+        .attr("r", Math.max(2, toPx(toolpath.cutterRadius)))
+        .attr("fill", "#34d399").attr("fill-opacity", 0.15)
+        .attr("stroke", "#34d399").attr("stroke-width", 1);
+    }
+
     // Base Circle Reference
     camGroup.append("circle")
       .attr("r", toPx(params.baseRadius))
@@ -118,9 +256,28 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
     // Cam Pivot Marker
     camGroup.append("circle").attr("r", 4).attr("fill", "#94a3b8");
 
+    // Spherical face: cap of radius rf around the face center (cx, cy), facing the unit direction (ux, uy).
+    // Returns the middle of the cap's chord, where the stem or arm attaches.
+    const drawSphericalFace = (container: any, cx: number, cy: number, ux: number, uy: number, color: string, isHighlight: boolean) => {
+      const radius = Math.max(2, toPx(params.faceRadius));
+      const halfAngle = Math.asin(Math.min(1, toPx(params.baseRadius * 0.4) / radius));
+      const arc = d3.range(-halfAngle, halfAngle + 1e-9, halfAngle / 12).map(phi => [
+        cx + radius * (ux * Math.cos(phi) - uy * Math.sin(phi)),
+        cy + radius * (ux * Math.sin(phi) + uy * Math.cos(phi))
+      ] as [number, number]);
+      container.append("path")
+        .attr("d", d3.line()(arc) + "Z")
+        .attr("fill", isHighlight ? color : "none")
+        .attr("fill-opacity", isHighlight ? 0.6 : 0)
+        .attr("stroke", color)
+        .attr("stroke-width", isHighlight ? baseStroke * 2 : baseStroke);
+      const chord = radius * Math.cos(halfAngle);
+      return [cx + ux * chord, cy + uy * chord];
+    };
+
     // Follower Drawing Function (shared for inversion and active follower)
-    const drawFollower = (container: any, theta: number, color: string, opacity: number, isHighlight: boolean = false) => {
-      const s = getInterpolatedLift(theta);
+    const drawFollower = (container: any, theta: number, color: string, opacity: number, isHighlight: boolean = false, lift?: number) => {
+      const s = lift ?? getLift(theta);
       const follower = container.append("g");
       
       if (params.followerType.includes('Translating')) {
@@ -128,7 +285,33 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
         let xContact = 0;
         const stemLen = toPx(params.baseRadius * 1.5);
 
-        if (params.followerType === FollowerType.TRANSLATING_ROLLER) {
+        if (params.followerType === FollowerType.TRANSLATING_KNIFE_EDGE) {
+          const R_prime = Math.sqrt(Math.max(0, Math.pow(params.baseRadius, 2) - Math.pow(params.offset, 2)));
+          xContact = toPx(R_prime + s);
+          const tipLen = toPx(params.baseRadius * 0.2);
+          const tipHalf = tipLen * 0.35;
+          follower.append("path")
+            .attr("d", `M${xContact},${yCenter} L${xContact + tipLen},${yCenter - tipHalf} L${xContact + tipLen},${yCenter + tipHalf} Z`)
+            .attr("fill", isHighlight ? color : "none")
+            .attr("stroke", color)
+            .attr("stroke-width", isHighlight ? baseStroke * 2 : baseStroke);
+
+          if (opacity > 0.5) {
+            follower.append("line")
+              .attr("x1", xContact + tipLen).attr("y1", yCenter).attr("x2", xContact + stemLen).attr("y2", yCenter)
+              .attr("stroke", isHighlight ? "#64748b" : "#334155").attr("stroke-width", 6).attr("stroke-linecap", "round");
+          }
+        } else if (params.followerType === FollowerType.TRANSLATING_SPHERICAL) {
+          const R_prime = Math.sqrt(Math.pow(params.baseRadius + params.faceRadius, 2) - Math.pow(params.offset, 2));
+          const xCenter = toPx(R_prime + s);
+          const [stemX] = drawSphericalFace(follower, xCenter, yCenter, -1, 0, color, isHighlight);
+
+          if (opacity > 0.5) {
+            follower.append("line")
+              .attr("x1", stemX).attr("y1", yCenter).attr("x2", stemX + stemLen).attr("y2", yCenter)
+              .attr("stroke", isHighlight ? "#64748b" : "#334155").attr("stroke-width", 6).attr("stroke-linecap", "round");
+          }
+        } else if (params.followerType === FollowerType.TRANSLATING_ROLLER) {
           const R_prime = Math.sqrt(Math.pow(params.baseRadius + params.followerRadius, 2) - Math.pow(params.offset, 2));
           xContact = toPx(R_prime + s);
           
@@ -145,11 +328,17 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
               .attr("stroke", isHighlight ? "#64748b" : "#334155").attr("stroke-width", 6).attr("stroke-linecap", "round");
           }
         } else {
-          xContact = toPx(params.baseRadius + s);
-          const faceHalf = toPx(params.baseRadius * 0.4);
+          // Face line n.X = rb + s cos(delta) crosses the stem axis (y = offset) here
+          const delta = (params.faceAngle || 0) * Math.PI / 180;
+          const p = params.baseRadius + s * Math.cos(delta);
+          xContact = toPx((p - params.offset * Math.sin(delta)) / Math.cos(delta));
+          // Long enough to cover the contact travel; t = (-sin delta, cos delta) is flipped in screen y
+          const faceHalf = toPx(Math.max(params.baseRadius * 0.4, faceLength ? Math.max(faceLength.positive, faceLength.negative) * 1.1 : 0));
+          const tx = -Math.sin(delta) * faceHalf;
+          const ty = -Math.cos(delta) * faceHalf;
           follower.append("line")
-            .attr("x1", xContact).attr("y1", yCenter - faceHalf)
-            .attr("x2", xContact).attr("y2", yCenter + faceHalf)
+            .attr("x1", xContact - tx).attr("y1", yCenter - ty)
+            .attr("x2", xContact + tx).attr("y2", yCenter + ty)
             .attr("stroke", color).attr("stroke-width", isHighlight ? baseStroke * 3 : baseStroke * 2);
           
           if (opacity > 0.5) {
@@ -161,17 +350,7 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
       } else {
         // Oscillating
         const pivotX = toPx(params.pivotDistance);
-        let phi0 = 0;
-        if (params.followerType === FollowerType.OSCILLATING_ROLLER) {
-           const num = Math.pow(params.pivotDistance, 2) + Math.pow(params.followerLength, 2) - Math.pow(params.baseRadius + params.followerRadius, 2);
-           const den = 2 * params.pivotDistance * params.followerLength;
-           phi0 = Math.acos(Math.max(-1, Math.min(1, num/den)));
-        } else {
-           const AE = (params.pivotDistance * params.baseRadius) / (params.baseRadius + params.offset);
-           const DE = Math.sqrt(Math.max(0, AE*AE - params.baseRadius*params.baseRadius));
-           phi0 = Math.atan2(params.baseRadius, DE);
-        }
-        
+        const phi0 = getInitialArmAngle(params);
         const phi = phi0 + (s * Math.PI / 180);
         const tipX = toPx(params.pivotDistance - params.followerLength * Math.cos(phi));
         const tipY = toPx(-params.followerLength * Math.sin(phi));
@@ -187,6 +366,10 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
             .attr("fill", isHighlight ? color : "none")
             .attr("stroke", color)
             .attr("stroke-width", isHighlight ? baseStroke * 2 : baseStroke);
+        } else if (params.followerType === FollowerType.OSCILLATING_SPHERICAL) {
+          // Face centered on the arm tip, turned toward the cam center
+          const len = Math.sqrt(tipX * tipX + tipY * tipY) || 1;
+          drawSphericalFace(follower, tipX, tipY, -tipX / len, -tipY / len, color, isHighlight);
         } else {
           const dx = tipX - pivotX; const dy = tipY; const len = Math.sqrt(dx*dx + dy*dy);
           const ux = -dy/len; const uy = dx/len;
@@ -226,7 +409,14 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
     const followerGroup = g.append("g");
     drawFollower(followerGroup, Math.abs(currentTheta), "#f59e0b", 1, true);
 
-  }, [data, params, currentTheta, showInversion]);
+    // Conjugate follower: mirror image across the stem axis (translating yoke) or the line of centers (rocker arm)
+    if (isConjugate) {
+      const mirror = isOscillating ? "scale(1,-1)" : "scale(-1,1)";
+      const theta = Math.abs(currentTheta);
+      drawFollower(g.append("g").attr("transform", mirror), theta, "#c084fc", 1, true, liftSum - getLift(theta));
+    }
+
+  }, [data, profile, violations, toolpath, stress, slip, faceLength, secondary, liftSum, isConjugate, params, currentTheta, showInversion]);
 
   return (
     <div className="flex flex-col h-full bg-slate-900 rounded-lg shadow-lg border border-slate-800 p-4">
@@ -271,12 +461,35 @@ const CamVisualizer: React.FC<CamVisualizerProps> = ({
         <div className="absolute bottom-4 left-4 text-[10px] font-mono text-slate-400 bg-slate-900/90 px-2 py-1 rounded border border-slate-700 pointer-events-none">
            θ: {Math.abs(currentTheta).toFixed(1)}°
         </div>
-        
-        {maxPaPoint && (
-           <div className="absolute top-4 right-4 text-[10px] font-mono text-red-400 bg-slate-900/90 px-2 py-1 rounded border border-red-900/30 pointer-events-none">
-              Max PA: {Math.abs(maxPaPoint.pressureAngle).toFixed(1)}°
-           </div>
+
+        {stress && (
+          <div className="absolute bottom-4 right-4 text-[10px] font-mono text-slate-400 bg-slate-900/90 px-2 py-1 rounded border border-slate-700 pointer-events-none">
+            <div
+              className="h-1.5 w-32 rounded mb-0.5"
+              style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(f => d3.interpolateTurbo(f)).join(', ')})` }}
+            />
+            <div className="flex justify-between"><span>0</span><span>σ allow {stress.allowableStress} MPa</span></div>
+          </div>
         )}
+        
+        <div className="absolute top-4 right-4 flex flex-col items-end gap-1 pointer-events-none">
+          {maxPaPoint && (
+             <div className="text-[10px] font-mono text-red-400 bg-slate-900/90 px-2 py-1 rounded border border-red-900/30">
+                Max PA: {Math.abs(maxPaPoint.pressureAngle).toFixed(1)}°
+             </div>
+          )}
+          {minRhoPoint && (
+             <div className={`text-[10px] font-mono bg-slate-900/90 px-2 py-1 rounded border ${minRhoPoint.kind ? 'text-red-400 border-red-900/30' : 'text-slate-300 border-slate-700'}`}>
+                Min |ρ|: {minRhoPoint.point.radiusOfCurvature.toFixed(1)} @ {minRhoPoint.point.theta.toFixed(1)}°
+                {minRhoPoint.kind && ` (${minRhoPoint.kind})`}
+             </div>
+          )}
+          {faceLength && (
+             <div className="text-[10px] font-mono text-sky-300 bg-slate-900/90 px-2 py-1 rounded border border-slate-700">
+                Face: +{faceLength.positive.toFixed(1)} / −{faceLength.negative.toFixed(1)}
+             </div>
+          )}
+        </div>
       </div>
       
       <div className="mt-4 px-2">
@@ -1,60 +1,193 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine 
 } from 'recharts';
-import { SimulationPoint } from '../types';
+import { SimulationPoint, BoundaryContinuity, KinematicJumps } from '../types';
+import {
+  DisplacementUnit, toTimeDomain, getTimeDomainPeaks, getTimeDomainUnits, getCyclePeriod
+} from '../utils/timeKinematics';
 
 interface ChartsProps {
   data: SimulationPoint[];
   currentTheta: number;
+  boundaries?: BoundaryContinuity[];
+  rpm: number;
+  onRpmChange: (rpm: number) => void;
+  displacementUnit: DisplacementUnit;
+  reference?: SimulationPoint[] | null; // Comparison motion evaluated at the same angles as data
+  onClearReference?: () => void;
 }
 
-const ChartContainer = ({ title, dataKey, data, color, unit, currentTheta }: any) => (
-  <div className="h-48 bg-slate-900 rounded-lg border border-slate-800 p-2 flex flex-col">
-    <div className="text-xs font-bold text-slate-400 mb-1 px-2">{title}</div>
-    <div className="flex-1 min-h-0">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
-          <XAxis 
-            dataKey="theta" 
-            type="number" 
-            domain={[0, 360]} 
-            tick={{fontSize: 10, fill: '#64748b'}}
-            ticks={[0, 90, 180, 270, 360]}
-          />
-          <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={30} />
-          <Tooltip 
-            contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
-            itemStyle={{ color: color }}
-            formatter={(value: number) => [value.toFixed(2), unit]}
-            labelFormatter={(label) => `Angle: ${label}°`}
-          />
-          <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
-          <ReferenceLine y={0} stroke="#334155" />
-          <Line 
-            type="monotone" 
-            dataKey={dataKey} 
-            stroke={color} 
-            strokeWidth={2} 
-            dot={false}
-            isAnimationActive={false}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+type ChartView = 'angle' | 'time';
+
+const ORDER: (keyof KinematicJumps)[] = ['s', 'v', 'a', 'j'];
+
+// A jump in a quantity, or in any lower derivative, shows up as a step or spike on that chart
+const getDiscontinuityAngles = (boundaries: BoundaryContinuity[], dataKey: keyof KinematicJumps) => {
+  const lowerOrders = ORDER.slice(0, ORDER.indexOf(dataKey) + 1);
+  return boundaries
+    .filter(b => lowerOrders.some(key => b.jumps[key] !== 0))
+    .flatMap(b => {
+      const color = b.severity === 'fail' ? '#ef4444' : '#f59e0b';
+      return b.isWrap ? [{ theta: 0, color }, { theta: 360, color }] : [{ theta: b.theta, color }];
+    });
+};
+
+// Largest displacement difference between the motion and its reference
+const getLargestDeviation = (data: SimulationPoint[], reference: SimulationPoint[]) =>
+  data.reduce((max, p, i) => {
+    const diff = Math.abs(p.s - reference[i].s);
+    return diff > max.value ? { value: diff, theta: p.theta } : max;
+  }, { value: 0, theta: 0 });
+
+const ChartContainer = ({ title, dataKey, data, referenceData, color, unit, currentTheta, boundaries = [], xKey = 'theta', xMax = 360 }: any) => {
+  const toX = (theta: number) => (theta / 360) * xMax;
+  const isTime = xKey === 't';
+  return (
+    <div className="h-48 bg-slate-900 rounded-lg border border-slate-800 p-2 flex flex-col">
+      <div className="text-xs font-bold text-slate-400 mb-1 px-2">{title}{unit && <span className="text-slate-600 font-normal"> [{unit}]</span>}</div>
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis 
+              dataKey={xKey} 
+              type="number" 
+              domain={[0, xMax]} 
+              tick={{fontSize: 10, fill: '#64748b'}}
+              ticks={[0, 0.25, 0.5, 0.75, 1].map(f => f * xMax)}
+              tickFormatter={(value: number) => isTime ? value.toFixed(1) : `${value}`}
+            />
+            <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={isTime ? 45 : 30} />
+            <Tooltip 
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+              itemStyle={{ color: color }}
+              formatter={(value: number) => [value.toFixed(2), unit]}
+              labelFormatter={(label) => isTime ? `Time: ${Number(label).toFixed(2)} ms` : `Angle: ${label}°`}
+            />
+            <ReferenceLine x={toX(currentTheta)} stroke="white" strokeDasharray="3 3" />
+            <ReferenceLine y={0} stroke="#334155" />
+            {getDiscontinuityAngles(boundaries, dataKey).map(({ theta, color: markColor }, idx) => (
+              <ReferenceLine key={idx} x={toX(theta)} stroke={markColor} strokeWidth={2} strokeOpacity={0.6} />
+            ))}
+            <Line 
+              type="monotone" 
+              dataKey={dataKey} 
+              stroke={color} 
+              strokeWidth={2} 
+              dot={false}
+              isAnimationActive={false}
+            />
+            {referenceData && (
+              <Line
+                type="monotone"
+                data={referenceData}
+                dataKey={dataKey}
+                name="Reference"
+                stroke={color}
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                strokeOpacity={0.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
     </div>
-  </div>
-);
+  );
+};
+
+const Charts: React.FC<ChartsProps> = ({
+  data, currentTheta, boundaries = [], rpm, onRpmChange, displacementUnit, reference = null, onClearReference
+}) => {
+  const [view, setView] = useState<ChartView>('angle');
+
+  const timeData = useMemo(() => toTimeDomain(data, rpm, displacementUnit), [data, rpm, displacementUnit]);
+  const hasReference = reference !== null && reference.length === data.length;
+  const referenceTimeData = useMemo(
+    () => (hasReference ? toTimeDomain(reference!, rpm, displacementUnit) : null),
+    [hasReference, reference, rpm, displacementUnit]
+  );
+  const deviation = useMemo(() => (hasReference ? getLargestDeviation(data, reference!) : null), [hasReference, data, reference]);
+  const peaks = useMemo(() => getTimeDomainPeaks(timeData), [timeData]);
+  const units = getTimeDomainUnits(displacementUnit);
+
+  const isTime = view === 'time' && rpm > 0;
+  const chartData = isTime ? timeData : data;
+  const referenceData = hasReference ? (isTime ? referenceTimeData : reference) : null;
+  const axis = isTime ? { xKey: 't', xMax: getCyclePeriod(rpm) } : { xKey: 'theta', xMax: 360 };
+  const perRad = `${displacementUnit === 'mm' ? 'mm' : '°'}/rad`;
+  const chartUnits = isTime
+    ? units
+    : { s: units.s, v: perRad, a: `${perRad}²`, j: `${perRad}³` };
 
-const Charts: React.FC<ChartsProps> = ({ data, currentTheta }) => {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-      <ChartContainer title="Displacement (S)" dataKey="s" data={data} color="#3b82f6" unit="" currentTheta={currentTheta} />
-      <ChartContainer title="Velocity (V)" dataKey="v" data={data} color="#10b981" unit="" currentTheta={currentTheta} />
-      <ChartContainer title="Acceleration (A)" dataKey="a" data={data} color="#f59e0b" unit="" currentTheta={currentTheta} />
-      <ChartContainer title="Jerk (J)" dataKey="j" data={data} color="#ef4444" unit="" currentTheta={currentTheta} />
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 bg-slate-900 rounded-lg border border-slate-800 px-3 py-2">
+        <div className="flex bg-slate-950 rounded border border-slate-700 p-0.5">
+          {(['angle', 'time'] as ChartView[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${view === v ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {v === 'angle' ? 'Per Radian' : 'Per Time'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          Cam Speed
+          <input
+            type="number"
+            min="0"
+            step="10"
+            value={rpm}
+            onChange={(e) => onRpmChange(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+          />
+          RPM
+        </label>
+        {rpm > 0 && (
+          <div className="flex flex-wrap gap-2 ml-auto text-[10px] font-mono">
+            <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-emerald-400">
+              V̂ {Math.abs(peaks.v.value).toFixed(1)} {units.v} @ {peaks.v.theta.toFixed(1)}°
+            </span>
+            <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-amber-400">
+              Â {Math.abs(peaks.a.value).toFixed(2)} {units.a}
+              {displacementUnit === 'mm' && ` (${Math.abs(peaks.aG.value).toFixed(2)} g)`} @ {peaks.a.theta.toFixed(1)}°
+            </span>
+            <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-red-400">
+              Ĵ {Math.abs(peaks.j.value).toFixed(1)} {units.j} @ {peaks.j.theta.toFixed(1)}°
+            </span>
+          </div>
+        )}
+        {deviation && (
+          <div className="flex items-center gap-2 w-full text-[10px] font-mono">
+            <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-slate-300">
+              Dashed: reference design · max |ΔS| {deviation.value.toFixed(3)} {units.s} @ {deviation.theta.toFixed(1)}°
+            </span>
+            {onClearReference && (
+              <button
+                onClick={onClearReference}
+                className="px-2 py-0.5 rounded border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500"
+              >
+                Clear Reference
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <ChartContainer title="Displacement (S)" dataKey="s" data={chartData} referenceData={referenceData} color="#3b82f6" unit={chartUnits.s} currentTheta={currentTheta} boundaries={boundaries} {...axis} />
+        <ChartContainer title="Velocity (V)" dataKey="v" data={chartData} referenceData={referenceData} color="#10b981" unit={chartUnits.v} currentTheta={currentTheta} boundaries={boundaries} {...axis} />
+        <ChartContainer title="Acceleration (A)" dataKey="a" data={chartData} referenceData={referenceData} color="#f59e0b" unit={chartUnits.a} currentTheta={currentTheta} boundaries={boundaries} {...axis} />
+        <ChartContainer title="Jerk (J)" dataKey="j" data={chartData} referenceData={referenceData} color="#ef4444" unit={chartUnits.j} currentTheta={currentTheta} boundaries={boundaries} {...axis} />
+      </div>
     </div>
   );
 };
 
-export default Charts;
\ No newline at end of file
+export default Charts;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { 
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea 
+} from 'recharts';
+import { SimulationPoint, CamParams, FeasibilityViolation, FollowerType } from '../types';
+import { getContactRadius } from '../utils/camMath';
+
+interface CurvatureChartProps {
+  data: SimulationPoint[];
+  params: CamParams;
+  violations: FeasibilityViolation[];
+  currentTheta: number;
+}
+
+const VIOLATION_STYLE = { fill: '#ef4444', fillOpacity: 0.15 };
+
+const CurvatureChart: React.FC<CurvatureChartProps> = ({ data, params, violations, currentTheta }) => {
+  const contactRadius = getContactRadius(params);
+  const hasUndercutBand = contactRadius !== null && contactRadius > 0;
+  const minRho = data.reduce((min, p) => Math.min(min, p.radiusOfCurvature), Infinity);
+  // Outer groove wall or second conjugate disc
+  const hasSecondary = data.some(p => p.secondary);
+  const secondaryName = params.followerType === FollowerType.BARREL_ROLLER
+    ? 'ρ upper'
+    : params.driveMode === 'groove' ? 'ρ outer' : 'ρ disc 2';
+
+  // Radius goes to infinity at inflections, so the axis is clipped around the base circle
+  const yMax = params.baseRadius * 3;
+  const yMin = -Math.max(params.baseRadius, hasUndercutBand ? 2 * contactRadius! : 0);
+
+  const areas = violations.flatMap(({ startAngle, endAngle }) =>
+    startAngle <= endAngle
+      ? [{ x1: startAngle, x2: endAngle }]
+      : [{ x1: startAngle, x2: 360 }, { x1: 0, x2: endAngle }]
+  );
+
+  return (
+    <div className="h-48 bg-slate-900 rounded-lg border border-slate-800 p-2 flex flex-col shadow-lg mt-4">
+      <div className="flex justify-between items-center mb-1 px-2">
+         <div className="text-xs font-bold text-slate-400">Radius of Curvature</div>
+         <div className="text-[10px] flex gap-2">
+            <span className="text-slate-500">Min: {isFinite(minRho) ? minRho.toFixed(1) : '-'}</span>
+            <span className="text-red-400">
+              {contactRadius === null ? 'Cusp: ρ < 0' : hasUndercutBand ? `Undercut: -${contactRadius} < ρ < 0` : 'Knife edge: no undercut'}
+            </span>
+         </div>
+      </div>
+      <div className="flex-1 min-h-0">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis 
+              dataKey="theta" 
+              type="number" 
+              domain={[0, 360]} 
+              tick={{fontSize: 10, fill: '#64748b'}}
+              ticks={[0, 90, 180, 270, 360]}
+            />
+            <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={30} domain={[yMin, yMax]} allowDataOverflow />
+            <Tooltip 
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+              itemStyle={{ color: '#22d3ee' }}
+              formatter={(value: number, name: string) => [value.toFixed(2), name]}
+              labelFormatter={(label) => `Angle: ${label}°`}
+            />
+            {areas.map((area, idx) => (
+              <React.Fragment key={idx}>
+                <ReferenceArea x1={area.x1} x2={area.x2} {...VIOLATION_STYLE} />
+              </React.Fragment>
+            ))}
+            <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+            <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />
+            {hasUndercutBand && <ReferenceLine y={-contactRadius!} stroke="#ef4444" strokeDasharray="3 3" />}
+            <Line 
+              type="monotone" 
+              dataKey="radiusOfCurvature" 
+              name="ρ"
+              stroke="#22d3ee" 
+              strokeWidth={2} 
+              dot={false}
+              isAnimationActive={false}
+            />
+            {hasSecondary && (
+              <Line
+                type="monotone"
+                dataKey={(p: SimulationPoint) => p.secondary?.radiusOfCurvature}
+                name={secondaryName}
+                stroke="#c084fc"
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default CurvatureChart;
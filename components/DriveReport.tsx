@@ -0,0 +1,72 @@
+import React from 'react';
+import { DriveAnalysis } from '../utils/positiveDrive';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface DriveReportProps {
+  analysis: DriveAnalysis;
+  isOscillating: boolean;
+}
+
+const formatRadius = (r: number) => (isFinite(r) && r < 1e6 ? r.toFixed(2) : '∞');
+
+const DriveReport: React.FC<DriveReportProps> = ({ analysis, isOscillating }) => {
+  const secondaryLabel = analysis.surfaces[1].label;
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 shadow-lg mt-4">
+      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">
+        {analysis.mode === 'groove' ? 'Groove Cam' : 'Conjugate Cam'}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[10px] font-mono text-slate-300 mb-2">
+        {analysis.grooveWidth !== null && (
+          <><span className="text-slate-500">Groove width</span><span>{analysis.grooveWidth.toFixed(2)}</span></>
+        )}
+        {analysis.followerSpan !== null && (
+          <>
+            <span className="text-slate-500">{isOscillating ? 'Angle between arms' : 'Follower span'}</span>
+            <span>{analysis.followerSpan.toFixed(2)}{isOscillating ? '°' : ''}</span>
+          </>
+        )}
+      </div>
+
+      <table className="w-full text-[10px] font-mono">
+        <thead>
+          <tr className="text-slate-500">
+            <th className="text-left font-normal"></th>
+            <th className="text-right font-normal">Min ρ convex</th>
+            <th className="text-right font-normal">Min ρ concave</th>
+            <th className="text-right font-normal">Max PA</th>
+          </tr>
+        </thead>
+        <tbody>
+          {analysis.surfaces.map(surface => (
+            <tr key={surface.label} className="text-slate-300">
+              <td className="text-slate-400">{surface.label}</td>
+              <td className="text-right">{formatRadius(surface.minConvexRadius)}</td>
+              <td className="text-right">{formatRadius(surface.minConcaveRadius)}</td>
+              <td className="text-right">{surface.maxPressureAngle.toFixed(1)}°</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-2 space-y-0.5">
+        {analysis.secondaryViolations.length === 0 ? (
+          <div className="flex items-center gap-1.5 text-[10px] text-emerald-400">
+            <CheckCircle2 size={12} className="shrink-0" />
+            {secondaryLabel} is free of undercutting and cusps.
+          </div>
+        ) : (
+          analysis.secondaryViolations.map((v, k) => (
+            <div key={k} className="flex items-center gap-1.5 text-[10px] text-red-300/80">
+              <XCircle size={12} className="shrink-0 text-red-400" />
+              {secondaryLabel} {v.kind} {v.startAngle.toFixed(1)}° – {v.endAngle.toFixed(1)}°
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DriveReport;
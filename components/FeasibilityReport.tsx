@@ -0,0 +1,40 @@
+import React from 'react';
+import { FeasibilityViolation } from '../types';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface FeasibilityReportProps {
+  violations: FeasibilityViolation[];
+}
+
+const KIND_LABELS: Record<FeasibilityViolation['kind'], string> = {
+  undercut: 'Undercut',
+  cusp: 'Cusp'
+};
+
+const FeasibilityReport: React.FC<FeasibilityReportProps> = ({ violations }) => (
+  <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 shadow-lg mt-4">
+    <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Design Feasibility</div>
+    {violations.length === 0 ? (
+      <div className="flex items-center gap-1.5 text-[10px] text-emerald-400">
+        <CheckCircle2 size={12} className="shrink-0" />
+        No undercutting or cusps on the sampled profile.
+      </div>
+    ) : (
+      <div className="space-y-1">
+        {violations.map((v, k) => (
+          <div key={k} className="p-1.5 rounded border bg-slate-950/40 border-red-900/40">
+            <div className="flex items-center gap-1.5 text-[10px]">
+              <XCircle size={12} className="shrink-0 text-red-400" />
+              <span className="font-bold uppercase text-red-400">{KIND_LABELS[v.kind]}</span>
+              <span className="font-mono text-slate-400">{v.startAngle.toFixed(1)}° – {v.endAngle.toFixed(1)}°</span>
+              <span className="ml-auto font-mono text-slate-500">worst @ {v.worstAngle.toFixed(1)}°</span>
+            </div>
+            <div className="pl-5 text-[9px] leading-tight text-red-300/80">{v.message}</div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default FeasibilityReport;
@@ -0,0 +1,162 @@
+import React from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea
+} from 'recharts';
+import { DynamicsAnalysis, DynamicsSettings } from '../utils/dynamics';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface ForceChartProps {
+  analysis: DynamicsAnalysis | null;
+  settings: DynamicsSettings;
+  onSettingsChange: (settings: DynamicsSettings) => void;
+  rpm: number;
+  onRpmChange: (rpm: number) => void;
+  currentTheta: number;
+  isOscillating: boolean;
+}
+
+const SEPARATION_STYLE = { fill: '#ef4444', fillOpacity: 0.15 };
+
+// Spring fields (and the safety factor used to size the spring) do not apply to positive drive
+const FIELDS: { key: keyof DynamicsSettings; label: string; step: string; spring?: boolean }[] = [
+  { key: 'mass', label: 'Mass (kg)', step: '0.05' },
+  { key: 'springRate', label: 'k (N/mm)', step: '0.5', spring: true },
+  { key: 'preload', label: 'Preload (N)', step: '5', spring: true },
+  { key: 'damping', label: 'c (N·s/m)', step: '1' },
+  { key: 'externalLoad', label: 'Load (N)', step: '5' },
+  { key: 'safetyFactor', label: 'Safety', step: '0.1', spring: true }
+];
+
+const ForceChart: React.FC<ForceChartProps> = ({
+  analysis,
+  settings,
+  onSettingsChange,
+  rpm,
+  onRpmChange,
+  currentTheta,
+  isOscillating
+}) => {
+  const update = (field: keyof DynamicsSettings, value: string) => {
+    // The external load may pull the follower away from the cam
+    const parsed = parseFloat(value) || 0;
+    onSettingsChange({ ...settings, [field]: field === 'externalLoad' ? parsed : Math.max(0, parsed) });
+  };
+
+  const areas = (analysis?.separations ?? []).flatMap(({ startAngle, endAngle }) =>
+    startAngle <= endAngle
+      ? [{ x1: startAngle, x2: endAngle }]
+      : [{ x1: startAngle, x2: 360 }, { x1: 0, x2: endAngle }]
+  );
+  const separationLabel = analysis?.positiveDrive ? 'Load reversal' : 'Follower jump';
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-xs font-bold text-slate-400">Contact Force</div>
+        {FIELDS.filter(f => !f.spring || !analysis?.positiveDrive).map(({ key, label, step }) => (
+          <label key={key} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            {label}
+            <input
+              type="number"
+              step={step}
+              value={settings[key]}
+              onChange={(e) => update(key, e.target.value)}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          RPM
+          <input
+            type="number"
+            min="0"
+            step="10"
+            value={rpm}
+            onChange={(e) => onRpmChange(Math.max(0, parseFloat(e.target.value) || 0))}
+            className="w-20 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+          />
+        </label>
+      </div>
+
+      {analysis && (
+        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-sky-300">
+            F min {analysis.minForce.value.toFixed(1)} N @ {analysis.minForce.theta.toFixed(1)}°
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-sky-300">
+            F max {analysis.maxForce.value.toFixed(1)} N @ {analysis.maxForce.theta.toFixed(1)}°
+          </span>
+          {!analysis.positiveDrive && (
+            <>
+              <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-emerald-400">
+                Min preload {analysis.minPreload.toFixed(1)} N @ k = {settings.springRate}
+              </span>
+              <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-emerald-400">
+                Min k {analysis.minSpringRate === null ? '— raise preload' : `${analysis.minSpringRate.toFixed(2)} N/mm`} @ F0 = {settings.preload}
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={analysis?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="theta"
+              type="number"
+              domain={[0, 360]}
+              tick={{fontSize: 10, fill: '#64748b'}}
+              ticks={[0, 90, 180, 270, 360]}
+            />
+            <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+              formatter={(value: number, name: string) => [`${value.toFixed(1)} N`, name]}
+              labelFormatter={(label) => `Angle: ${label}°`}
+            />
+            {areas.map((area, idx) => (
+              <React.Fragment key={idx}>
+                <ReferenceArea x1={area.x1} x2={area.x2} {...SEPARATION_STYLE} />
+              </React.Fragment>
+            ))}
+            <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+            <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="inertia" name="Inertia" stroke="#f59e0b" strokeWidth={1} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+            {!analysis?.positiveDrive && (
+              <Line type="monotone" dataKey="spring" name="Spring" stroke="#10b981" strokeWidth={1} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+            )}
+            <Line type="monotone" dataKey="force" name="Contact" stroke="#38bdf8" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {analysis && (
+        <div className="space-y-0.5">
+          {analysis.separations.length === 0 ? (
+            <div className="flex items-center gap-1.5 text-[10px] text-emerald-400">
+              <CheckCircle2 size={12} className="shrink-0" />
+              {analysis.positiveDrive
+                ? 'The load stays on the main flank over the whole cycle.'
+                : 'The follower stays on the cam over the whole cycle.'}
+            </div>
+          ) : (
+            analysis.separations.map((s, k) => (
+              <div key={k} className="flex items-center gap-1.5 text-[10px] text-red-300/80">
+                <AlertCircle size={12} className="shrink-0 text-red-400" />
+                {separationLabel} {s.startAngle.toFixed(1)}° – {s.endAngle.toFixed(1)}°
+              </div>
+            ))
+          )}
+          <p className="text-[9px] text-slate-600 leading-tight">
+            Force along the follower motion{isOscillating ? ', reduced to the arm tip' : ''}; divide by cos(pressure
+            angle) for the normal contact force.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForceChart;
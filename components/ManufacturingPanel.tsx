@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { CutterSettings, Toolpath, generateGCode } from '../utils/manufacturing';
+import { Wrench, AlertCircle, ChevronDown, ChevronRight, Download, Eye } from 'lucide-react';
+
+interface ManufacturingPanelProps {
+  toolpath: Toolpath | null; // Computed from the synced profile
+  settings: CutterSettings;
+  onSettingsChange: (settings: CutterSettings) => void;
+  showPreview: boolean;
+  onShowPreviewChange: (show: boolean) => void;
+  programName: string;
+}
+
+const ManufacturingPanel: React.FC<ManufacturingPanelProps> = ({
+  toolpath,
+  settings,
+  onSettingsChange,
+  showPreview,
+  onShowPreviewChange,
+  programName
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const program = useMemo(
+    () => (isOpen && toolpath ? generateGCode(toolpath, settings, programName) : null),
+    [isOpen, toolpath, settings, programName]
+  );
+
+  const update = (field: keyof CutterSettings, value: string) => {
+    onSettingsChange({ ...settings, [field]: Math.max(0, parseFloat(value) || 0) });
+  };
+
+  const download = () => {
+    if (!program) return;
+    const blob = new Blob([program.code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(programName || 'cam').replace(/[^\w-]+/g, '_')}.nc`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const fields: { key: keyof CutterSettings; label: string; step: string }[] = [
+    { key: 'cutterRadius', label: 'Cutter Radius', step: '0.5' },
+    { key: 'depth', label: 'Depth', step: '0.5' },
+    { key: 'feedRate', label: 'Feed (mm/min)', step: '10' },
+    { key: 'plungeRate', label: 'Plunge (mm/min)', step: '10' },
+    { key: 'leadIn', label: 'Lead-in', step: '0.5' },
+    { key: 'safeZ', label: 'Safe Z', step: '0.5' },
+    { key: 'tolerance', label: 'Fit Tolerance', step: '0.001' }
+  ];
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        <Wrench size={16} className="text-blue-400" />
+        <h2 className="text-lg font-bold text-slate-100">CNC Toolpath</h2>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <div className="flex rounded bg-slate-950 p-0.5 border border-slate-800">
+            {(['outside', 'inside'] as const).map(side => (
+              <button
+                key={side}
+                onClick={() => onSettingsChange({ ...settings, side })}
+                className={`flex-1 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-all ${
+                  settings.side === side ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {side === 'outside' ? 'Outside Profile' : 'Inside Profile'}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {fields.map(({ key, label, step }) => (
+              <div key={key}>
+                <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">{label}</label>
+                <input
+                  type="number"
+                  step={step}
+                  min="0"
+                  value={settings[key] as number}
+                  onChange={(e) => update(key, e.target.value)}
+                  className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 font-mono"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <input type="checkbox" checked={settings.useArcs} onChange={(e) => onSettingsChange({ ...settings, useArcs: e.target.checked })} />
+              Arc Fitting (G02/G03)
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <input type="checkbox" checked={showPreview} onChange={(e) => onShowPreviewChange(e.target.checked)} />
+              <Eye size={12} /> Preview
+            </label>
+          </div>
+
+          {toolpath && toolpath.warnings.length > 0 && (
+            <div className="p-2.5 bg-amber-900/10 border border-amber-900/30 rounded flex gap-2.5 items-start text-[10px] leading-tight">
+              <AlertCircle size={14} className="shrink-0 text-amber-600" />
+              <div className="space-y-1">
+                {toolpath.warnings.map((w, k) => (
+                  <p key={k} className={w.kind === 'gouge' ? 'text-amber-200/80' : 'text-red-300/80'}>{w.message}</p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {program && toolpath && (
+            <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[10px] font-mono text-slate-300">
+              <span className="text-slate-500">Path points</span><span>{toolpath.points.length}</span>
+              <span className="text-slate-500">Loops trimmed</span><span>{toolpath.loopsRemoved}</span>
+              <span className="text-slate-500">G01 / arc moves</span><span>{program.lineMoves} / {program.arcMoves}</span>
+            </div>
+          )}
+
+          <button
+            onClick={download}
+            disabled={!program}
+            className={`w-full flex items-center justify-center gap-2 py-2 rounded text-xs font-bold uppercase tracking-wider transition-all ${
+              !program
+                ? 'bg-slate-800 text-slate-500 cursor-default'
+                : 'bg-blue-600 hover:bg-blue-500 text-white shadow-md'
+            }`}
+          >
+            <Download size={14} /> Download G-code
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManufacturingPanel;
@@ -1,6 +1,26 @@
-import React from 'react';
-import { MotionSegment, MotionType } from '../types';
-import { Trash2, Plus, AlertCircle, PlayCircle } from 'lucide-react';
+import React, { useMemo } from 'react';
+import { MotionSegment, MotionType, PolynomialBoundary, ContinuitySeverity } from '../types';
+import { getSegmentPolynomial } from '../utils/polynomialMath';
+import { MIN_SPLINE_DEGREE, MAX_SPLINE_DEGREE, getSplineEndOrders } from '../utils/bspline';
+import { getSegmentShape } from '../utils/motionMath';
+import { refitTabulatedSegment, getTabulatedFitReport, TABULATED_DEGREE } from '../utils/tabulatedMotion';
+import { analyzeContinuity } from '../utils/continuityAnalysis';
+import { Trash2, Plus, Minus, AlertCircle, PlayCircle, CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+
+// Keeps the displayed Lift (Δ) of absolute-shape segments in step with their definition
+const withSyncedLift = (seg: MotionSegment): MotionSegment => {
+  const shape = getSegmentShape(seg);
+  return shape ? { ...seg, deltaLift: shape(1)[0] - shape(0)[0] } : seg;
+};
+
+const SEVERITY_STYLES: Record<ContinuitySeverity, { text: string; border: string; Icon: typeof CheckCircle2 }> = {
+  pass: { text: 'text-emerald-400', border: 'border-emerald-900/40', Icon: CheckCircle2 },
+  warning: { text: 'text-amber-400', border: 'border-amber-900/40', Icon: AlertTriangle },
+  fail: { text: 'text-red-400', border: 'border-red-900/40', Icon: XCircle }
+};
+
+const isValidPartialNumber = (rawValue: string) =>
+  rawValue === '' || rawValue === '-' || rawValue.endsWith('.') || !isNaN(Number(rawValue));
 
 interface MotionDesignerProps {
   segments: MotionSegment[];
@@ -28,10 +48,73 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
 
   const updateSegment = (index: number, field: keyof MotionSegment, value: any) => {
     const newSegments = [...segments];
-    newSegments[index] = { ...newSegments[index], [field]: value };
+    newSegments[index] = withSyncedLift({ ...newSegments[index], [field]: value });
+    onSegmentsChange(newSegments);
+  };
+
+  const replaceSegment = (index: number, seg: MotionSegment) => {
+    const newSegments = [...segments];
+    newSegments[index] = withSyncedLift(seg);
     onSegmentsChange(newSegments);
   };
 
+  const changeSegmentType = (index: number, type: MotionType) => {
+    const seg = segments[index];
+    // Seed absolute-shape segments from the current lift level so they start continuous
+    const startLift = index > 0 ? cumulativeLifts[index - 1] : 0;
+    const endLift = startLift + (Number(seg.deltaLift) || 0);
+
+    if (type === MotionType.CUSTOM_POLYNOMIAL && !seg.polynomial) {
+      const polynomial: PolynomialBoundary = { s0: startLift, v0: 0, a0: 0, j0: '', s1: endLift, v1: 0, a1: 0, j1: '' };
+      replaceSegment(index, { ...seg, type, polynomial });
+      return;
+    }
+    if (type === MotionType.B_SPLINE && !seg.spline) {
+      // Degree 4 with eight points: the four at each end are then set from the neighbours (jerk-continuous)
+      const controlPoints = [startLift, startLift, startLift, startLift, endLift, endLift, endLift, endLift];
+      replaceSegment(index, { ...seg, type, spline: { degree: 4, controlPoints } });
+      return;
+    }
+    replaceSegment(index, { ...seg, type });
+  };
+
+  const updateBoundary = (index: number, field: keyof PolynomialBoundary, rawValue: string) => {
+    if (!isValidPartialNumber(rawValue)) return;
+    const seg = segments[index];
+    replaceSegment(index, { ...seg, polynomial: { ...seg.polynomial!, [field]: rawValue } });
+  };
+
+  const updateSplineDegree = (index: number, degree: number) => {
+    const seg = segments[index];
+    const controlPoints = [...seg.spline!.controlPoints];
+    while (controlPoints.length < degree + 1) controlPoints.push(controlPoints[controlPoints.length - 1] ?? 0);
+    replaceSegment(index, { ...seg, spline: { degree, controlPoints } });
+  };
+
+  const updateControlPoint = (index: number, pointIndex: number, rawValue: string) => {
+    if (!isValidPartialNumber(rawValue)) return;
+    const seg = segments[index];
+    const controlPoints = [...seg.spline!.controlPoints];
+    controlPoints[pointIndex] = rawValue;
+    replaceSegment(index, { ...seg, spline: { ...seg.spline!, controlPoints } });
+  };
+
+  const resizeControlPoints = (index: number, delta: 1 | -1) => {
+    const seg = segments[index];
+    const controlPoints = [...seg.spline!.controlPoints];
+    if (delta > 0) {
+      controlPoints.push(controlPoints[controlPoints.length - 1] ?? 0);
+    } else if (controlPoints.length > seg.spline!.degree + 1) {
+      controlPoints.pop();
+    }
+    replaceSegment(index, { ...seg, spline: { ...seg.spline!, controlPoints } });
+  };
+
+  const updateTableSetting = (index: number, field: 'controlPointCount' | 'smoothing', value: number) => {
+    const seg = segments[index];
+    replaceSegment(index, refitTabulatedSegment({ ...seg, table: { ...seg.table!, [field]: value } }));
+  };
+
   const removeSegment = (index: number) => {
     const newSegments = [...segments];
     newSegments.splice(index, 1);
@@ -62,13 +145,20 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
     }
   };
 
+  const continuity = useMemo(() => analyzeContinuity(segments), [segments]);
+
   const totalAngle = segments.reduce((sum, s) => sum + (Number(s.duration) || 0), 0);
   const isComplete = Math.abs(totalAngle - 360) < 0.001;
 
   // Calculate cumulative lifts for display
   let runningLift = 0;
   const cumulativeLifts = segments.map(s => {
-    runningLift += (Number(s.deltaLift) || 0);
+    const shape = getSegmentShape(s);
+    if (shape) {
+      runningLift = shape(1)[0];
+    } else {
+      runningLift += (Number(s.deltaLift) || 0);
+    }
     return runningLift;
   });
 
@@ -105,6 +195,16 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
 
       <div className="space-y-2">
         {segments.map((seg, idx) => {
+          const isCustomPolynomial = seg.type === MotionType.CUSTOM_POLYNOMIAL && !!seg.polynomial;
+          const isSpline = seg.type === MotionType.B_SPLINE && !!seg.spline;
+          const isTabulated = seg.type === MotionType.TABULATED && !!seg.table;
+          const isAbsoluteShape = isCustomPolynomial || isSpline || isTabulated;
+          const coefficients = isCustomPolynomial ? getSegmentPolynomial(seg) : null;
+          const fitReport = isTabulated ? getTabulatedFitReport(seg) : null;
+          const isPeriodicSpline = Math.abs((Number(seg.duration) || 0) - 360) < 1e-6;
+          // Number of end points at each end that are set from the neighbours, null when they cannot be
+          const splineOrders = isSpline ? getSplineEndOrders(seg.spline!.degree) : 0;
+          const splineEnds = isSpline && !isPeriodicSpline && (Number(seg.duration) || 0) > 0 && seg.spline!.controlPoints.length >= 2 * splineOrders ? splineOrders : null;
           return (
             <div key={seg.id} className="flex flex-col gap-1">
               <div className="flex items-center gap-2 bg-slate-800/50 p-2 rounded border border-slate-700/50 hover:border-slate-600 transition-colors group">
@@ -115,12 +215,14 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
                 <div className="flex-[1.5] min-w-0">
                   <select 
                     value={seg.type}
-                    onChange={(e) => updateSegment(idx, 'type', e.target.value)}
+                    onChange={(e) => changeSegmentType(idx, e.target.value as MotionType)}
                     className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500 transition-colors appearance-none cursor-pointer"
                   >
-                    {Object.values(MotionType).map(t => (
-                      <option key={t} value={t}>{t}</option>
-                    ))}
+                    {Object.values(MotionType)
+                      .filter(t => t !== MotionType.TABULATED || seg.type === MotionType.TABULATED)
+                      .map(t => (
+                        <option key={t} value={t}>{t}</option>
+                      ))}
                   </select>
                 </div>
 
@@ -130,7 +232,8 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
                     inputMode="decimal"
                     value={seg.duration}
                     onChange={(e) => handleNumberInputChange(idx, 'duration', e.target.value)}
-                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/20 transition-all text-center font-mono"
+                    disabled={isTabulated}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/20 transition-all text-center font-mono disabled:text-slate-500"
                   />
                 </div>
 
@@ -138,10 +241,11 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
                   <input 
                     type="text" 
                     inputMode="decimal"
-                    value={seg.deltaLift}
+                    value={isAbsoluteShape ? Number(seg.deltaLift).toFixed(2) : seg.deltaLift}
                     onChange={(e) => handleNumberInputChange(idx, 'deltaLift', e.target.value)}
+                    disabled={isAbsoluteShape}
                     placeholder="+ / -"
-                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/20 transition-all text-center font-mono"
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/20 transition-all text-center font-mono disabled:text-slate-500"
                   />
                 </div>
 
@@ -152,6 +256,134 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
                   <Trash2 size={14} />
                 </button>
               </div>
+              {isCustomPolynomial && (
+                <div className="ml-8 mr-10 p-2 bg-slate-950/60 rounded border border-slate-800 space-y-1">
+                  <div className="grid grid-cols-5 gap-1 text-[9px] font-bold text-slate-500 uppercase tracking-wider">
+                    <div></div>
+                    <div className="text-center">S</div>
+                    <div className="text-center">V</div>
+                    <div className="text-center">A</div>
+                    <div className="text-center">J (opt)</div>
+                  </div>
+                  {([['Start', 's0', 'v0', 'a0', 'j0'], ['End', 's1', 'v1', 'a1', 'j1']] as const).map(([label, ...fields]) => (
+                    <div key={label} className="grid grid-cols-5 gap-1 items-center">
+                      <div className="text-[9px] font-bold text-slate-500 uppercase">{label}</div>
+                      {fields.map(field => (
+                        <input
+                          key={field}
+                          type="text"
+                          inputMode="decimal"
+                          value={seg.polynomial![field] ?? ''}
+                          onChange={(e) => updateBoundary(idx, field, e.target.value)}
+                          className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-1 text-[10px] text-slate-200 focus:border-blue-500 transition-all text-center font-mono"
+                        />
+                      ))}
+                    </div>
+                  ))}
+                  <div className="pt-1 text-[9px] text-slate-600">u = (θ − θstart) / duration</div>
+                  <div className="text-[9px] font-mono text-slate-400 break-all">
+                    {coefficients
+                      ? `s(u) = ${coefficients.map((c, k) => `${c.toFixed(4)}u^${k}`).join(' + ')}`
+                      : 'Boundary conditions cannot be solved (check duration).'}
+                  </div>
+                </div>
+              )}
+              {isSpline && (
+                <div className="ml-8 mr-10 p-2 bg-slate-950/60 rounded border border-slate-800 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1.5">
+                      <span className="text-[9px] font-bold text-slate-500 uppercase">Degree</span>
+                      <select
+                        value={seg.spline!.degree}
+                        onChange={(e) => updateSplineDegree(idx, Number(e.target.value))}
+                        className="bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 focus:outline-none focus:border-blue-500"
+                      >
+                        {Array.from({ length: MAX_SPLINE_DEGREE - MIN_SPLINE_DEGREE + 1 }, (_, k) => MIN_SPLINE_DEGREE + k).map(p => (
+                          <option key={p} value={p}>{p}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <span className="text-[9px] font-mono text-slate-400">
+                      C{seg.spline!.degree - 1} · {isPeriodicSpline ? 'periodic' : 'clamped'}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {seg.spline!.controlPoints.map((p, k) => {
+                      const isMatched = splineEnds !== null && (k < splineEnds || k >= seg.spline!.controlPoints.length - splineEnds);
+                      return (
+                        <input
+                          key={k}
+                          type="text"
+                          inputMode="decimal"
+                          value={isMatched ? (Number(p) || 0).toFixed(3) : p}
+                          readOnly={isMatched}
+                          title={isMatched ? `P${k} (set by the neighbouring segment)` : `P${k}`}
+                          onChange={(e) => updateControlPoint(idx, k, e.target.value)}
+                          className={`w-12 bg-slate-950 border rounded px-1 py-1 text-[10px] focus:border-blue-500 transition-all text-center font-mono ${
+                            isMatched ? 'border-slate-800 text-slate-500' : 'border-slate-700 text-slate-200'
+                          }`}
+                        />
+                      );
+                    })}
+                    <button
+                      onClick={() => resizeControlPoints(idx, -1)}
+                      className="w-6 flex items-center justify-center text-slate-500 hover:text-slate-200 hover:bg-slate-800 rounded"
+                    >
+                      <Minus size={12} />
+                    </button>
+                    <button
+                      onClick={() => resizeControlPoints(idx, 1)}
+                      className="w-6 flex items-center justify-center text-slate-500 hover:text-slate-200 hover:bg-slate-800 rounded"
+                    >
+                      <Plus size={12} />
+                    </button>
+                  </div>
+                  {isPeriodicSpline ? (
+                    <div className="text-[9px] text-slate-600 leading-tight">A 360° segment closes periodically.</div>
+                  ) : splineEnds !== null ? (
+                    <div className="text-[9px] text-slate-600 leading-tight">
+                      The first and last {splineEnds} points follow the neighbouring segments, keeping C{splineEnds - 1} at both junctions.
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 text-[9px] text-amber-400 leading-tight">
+                      <AlertTriangle size={10} className="shrink-0" />
+                      Add control points: {2 * splineOrders} are needed to run on smoothly from both neighbours.
+                    </div>
+                  )}
+                </div>
+              )}
+              {isTabulated && (
+                <div className="ml-8 mr-10 p-2 bg-slate-950/60 rounded border border-slate-800 space-y-1.5">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-1.5 text-[9px] font-bold text-slate-500 uppercase">
+                      Control Pts
+                      <input
+                        type="number"
+                        min={TABULATED_DEGREE + 1}
+                        value={seg.table!.controlPointCount}
+                        onChange={(e) => updateTableSetting(idx, 'controlPointCount', Math.max(TABULATED_DEGREE + 1, parseInt(e.target.value) || 0))}
+                        className="w-12 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 text-center font-mono"
+                      />
+                    </label>
+                    <label className="flex items-center gap-1.5 text-[9px] font-bold text-slate-500 uppercase">
+                      λ
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={seg.table!.smoothing}
+                        onChange={(e) => updateTableSetting(idx, 'smoothing', Math.max(0, parseFloat(e.target.value) || 0))}
+                        className="w-14 bg-slate-950 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 text-center font-mono"
+                      />
+                    </label>
+                  </div>
+                  <div className="text-[9px] font-mono text-slate-400">
+                    {fitReport
+                      ? `${seg.table!.points.length} pts · residual RMS ${fitReport.rms.toExponential(2)} · max ${fitReport.maxAbs.toExponential(2)}`
+                      : 'Fit is singular: reduce the control points or increase smoothing.'}
+                  </div>
+                </div>
+              )}
               <div className="px-10 flex justify-between">
                  <span className="text-[9px] text-slate-600 uppercase font-bold tracking-tight">Pos: {cumulativeLifts[idx].toFixed(1)}</span>
               </div>
@@ -167,6 +399,37 @@ const MotionDesigner: React.FC<MotionDesignerProps> = ({ segments, onSegmentsCha
         <Plus size={14} /> Add Segment
       </button>
       
+      {continuity.length > 0 && (
+        <div className="mt-4">
+          <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Boundary Continuity</div>
+          <div className="space-y-1">
+            {continuity.map((b, k) => {
+              const { text, border, Icon } = SEVERITY_STYLES[b.severity];
+              const jumpText = (['s', 'v', 'a', 'j'] as const)
+                .filter(key => b.jumps[key] !== 0)
+                .map(key => `Δ${key}=${b.jumps[key].toFixed(2)}`)
+                .join('  ');
+              return (
+                <div key={k} className={`p-1.5 rounded border bg-slate-950/40 ${border}`}>
+                  <div className="flex items-center gap-1.5 text-[10px]">
+                    <Icon size={12} className={`shrink-0 ${text}`} />
+                    <span className="font-mono text-slate-400">{b.isWrap ? '360°→0°' : `${b.theta.toFixed(1)}°`}</span>
+                    <span className="text-slate-500 truncate">{b.fromLabel} → {b.toLabel}</span>
+                    <span className={`ml-auto font-bold uppercase ${text}`}>{b.severity}</span>
+                  </div>
+                  {b.severity !== 'pass' && (
+                    <div className="pl-5 text-[9px] leading-tight">
+                      <span className={text}>{b.message}</span>
+                      <span className="ml-2 font-mono text-slate-500">{jumpText}</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {!isComplete && (
         <div className="mt-4 p-2.5 bg-amber-900/10 border border-amber-900/30 rounded flex gap-2.5 items-start text-amber-200/70 text-[10px] leading-tight">
           <AlertCircle size={14} className="shrink-0 text-amber-600" />
@@ -0,0 +1,162 @@
+import React, { useMemo, useState } from 'react';
+import { MotionEvent, MotionSegment, MotionType } from '../types';
+import { buildSegmentsFromEvents, WIZARD_MOTION_TYPES } from '../utils/motionWizard';
+import { Trash2, Plus, AlertCircle, Wand2, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface MotionWizardProps {
+  onApply: (segments: MotionSegment[]) => void;
+}
+
+const MotionWizard: React.FC<MotionWizardProps> = ({ onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<MotionEvent[]>([
+    { id: '1', kind: 'rise', type: MotionType.CYCLOIDAL, startAngle: 40, endAngle: 130, lift: 25 },
+    { id: '2', kind: 'return', type: MotionType.POLYNOMIAL_345, startAngle: 200, endAngle: 300, lift: '' },
+  ]);
+
+  const result = useMemo(() => buildSegmentsFromEvents(events), [events]);
+
+  const addEvent = () => {
+    const lastEnd = events.reduce((max, ev) => Math.max(max, Number(ev.endAngle) || 0), 0);
+    const startAngle = Math.min(lastEnd + 30, 330);
+    const id = Math.random().toString(36).substr(2, 9);
+    setEvents([...events, {
+      id,
+      kind: 'return',
+      type: MotionType.CYCLOIDAL,
+      startAngle,
+      endAngle: Math.min(startAngle + 60, 360),
+      lift: ''
+    }]);
+  };
+
+  const updateEvent = (index: number, field: keyof MotionEvent, value: any) => {
+    const newEvents = [...events];
+    newEvents[index] = { ...newEvents[index], [field]: value };
+    setEvents(newEvents);
+  };
+
+  const handleNumberInputChange = (index: number, field: 'startAngle' | 'endAngle' | 'lift', rawValue: string) => {
+    if (rawValue === '' || rawValue.endsWith('.') || !isNaN(Number(rawValue))) {
+      updateEvent(index, field, rawValue);
+    }
+  };
+
+  const removeEvent = (index: number) => {
+    const newEvents = [...events];
+    newEvents.splice(index, 1);
+    setEvents(newEvents);
+  };
+
+  const inputClass = "w-full bg-slate-950 border border-slate-700 rounded px-1.5 py-1.5 text-xs text-slate-200 focus:border-blue-500 focus:ring-1 focus:ring-blue-500/20 transition-all text-center font-mono";
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        <Wand2 size={16} className="text-blue-400" />
+        <h2 className="text-lg font-bold text-slate-100">Program Wizard</h2>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4">
+          <p className="text-[10px] text-slate-500 mb-3 leading-tight">
+            Describe rises and returns between absolute cam angles. Gaps are filled with dwells.
+            Leave a return's lift blank to go back to zero.
+          </p>
+
+          <div className="flex items-center gap-1.5 mb-2 px-1">
+            <div className="flex-[1] text-[10px] font-bold text-slate-500 uppercase tracking-wider">Event</div>
+            <div className="flex-[1.5] text-[10px] font-bold text-slate-500 uppercase tracking-wider">Law</div>
+            <div className="flex-[0.8] text-[10px] font-bold text-slate-500 uppercase tracking-wider">From</div>
+            <div className="flex-[0.8] text-[10px] font-bold text-slate-500 uppercase tracking-wider">To</div>
+            <div className="flex-[0.8] text-[10px] font-bold text-slate-500 uppercase tracking-wider">Lift</div>
+            <div className="w-7"></div>
+          </div>
+
+          <div className="space-y-2">
+            {events.map((ev, idx) => (
+              <div key={ev.id} className="flex items-center gap-1.5 bg-slate-800/50 p-1.5 rounded border border-slate-700/50">
+                <div className="flex-[1] min-w-0">
+                  <select
+                    value={ev.kind}
+                    onChange={(e) => updateEvent(idx, 'kind', e.target.value)}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500 appearance-none cursor-pointer"
+                  >
+                    <option value="rise">Rise</option>
+                    <option value="return">Return</option>
+                  </select>
+                </div>
+                <div className="flex-[1.5] min-w-0">
+                  <select
+                    value={ev.type}
+                    onChange={(e) => updateEvent(idx, 'type', e.target.value)}
+                    className="w-full bg-slate-950 border border-slate-700 rounded px-1 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500 appearance-none cursor-pointer"
+                  >
+                    {WIZARD_MOTION_TYPES.map(t => (
+                      <option key={t} value={t}>{t}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex-[0.8]">
+                  <input type="text" inputMode="decimal" value={ev.startAngle} className={inputClass}
+                    onChange={(e) => handleNumberInputChange(idx, 'startAngle', e.target.value)} />
+                </div>
+                <div className="flex-[0.8]">
+                  <input type="text" inputMode="decimal" value={ev.endAngle} className={inputClass}
+                    onChange={(e) => handleNumberInputChange(idx, 'endAngle', e.target.value)} />
+                </div>
+                <div className="flex-[0.8]">
+                  <input type="text" inputMode="decimal" value={ev.lift} className={inputClass}
+                    placeholder={ev.kind === 'return' ? '→0' : ''}
+                    onChange={(e) => handleNumberInputChange(idx, 'lift', e.target.value)} />
+                </div>
+                <button
+                  onClick={() => removeEvent(idx)}
+                  className="w-7 h-7 flex items-center justify-center text-slate-600 hover:text-red-400 hover:bg-red-400/10 rounded transition-all"
+                >
+                  <Trash2 size={13} />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={addEvent}
+            className="mt-3 w-full flex items-center justify-center gap-2 py-2 border border-dashed border-slate-700 text-slate-500 hover:border-slate-500 hover:text-slate-300 hover:bg-slate-800/30 rounded transition-all text-xs font-bold uppercase tracking-widest"
+          >
+            <Plus size={14} /> Add Event
+          </button>
+
+          {[...result.errors, ...result.warnings].length > 0 && (
+            <div className="mt-3 p-2.5 bg-amber-900/10 border border-amber-900/30 rounded flex gap-2.5 items-start text-amber-200/70 text-[10px] leading-tight">
+              <AlertCircle size={14} className="shrink-0 text-amber-600" />
+              <div className="space-y-0.5">
+                {result.errors.map((msg, k) => <p key={`e${k}`} className="text-red-300/80">{msg}</p>)}
+                {result.warnings.map((msg, k) => <p key={`w${k}`}>{msg}</p>)}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={() => onApply(result.segments)}
+            disabled={result.errors.length > 0}
+            className={`mt-3 w-full flex items-center justify-center gap-2 py-2 rounded text-xs font-bold uppercase tracking-wider transition-all ${
+              result.errors.length > 0
+                ? 'bg-slate-800 text-slate-500 cursor-default'
+                : 'bg-blue-600 hover:bg-blue-500 text-white shadow-md'
+            }`}
+          >
+            <Wand2 size={14} />
+            Replace Segments ({result.segments.length})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MotionWizard;
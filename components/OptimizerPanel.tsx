@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { CamParams, SimulationPoint, FollowerType } from '../types';
+import { optimizeCamParams, OptimizerConstraints, OptimizerResult, DEFAULT_CONSTRAINTS } from '../utils/optimizer';
+import { getContactRadius } from '../utils/camMath';
+import { Target, Check, AlertCircle } from 'lucide-react';
+
+interface OptimizerPanelProps {
+  motion: SimulationPoint[];
+  params: CamParams;
+  onApply: (params: CamParams) => void;
+}
+
+const GEOMETRY_LABELS: Record<FollowerType, string | null> = {
+  [FollowerType.TRANSLATING_ROLLER]: 'Search offset',
+  [FollowerType.TRANSLATING_FLAT]: null,
+  [FollowerType.OSCILLATING_ROLLER]: 'Search pivot distance & arm length',
+  [FollowerType.OSCILLATING_FLAT]: 'Search pivot distance',
+  [FollowerType.TRANSLATING_KNIFE_EDGE]: 'Search offset',
+  [FollowerType.TRANSLATING_SPHERICAL]: 'Search offset',
+  [FollowerType.OSCILLATING_SPHERICAL]: 'Search pivot distance & arm length',
+  [FollowerType.BARREL_ROLLER]: null
+};
+
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ motion, params, onApply }) => {
+  const [constraints, setConstraints] = useState<OptimizerConstraints>(DEFAULT_CONSTRAINTS);
+  const [searchGeometry, setSearchGeometry] = useState(true);
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const contactRadius = getContactRadius(params);
+  const geometryLabel = GEOMETRY_LABELS[params.followerType];
+
+  const updateConstraint = (field: keyof OptimizerConstraints, value: string) => {
+    setConstraints({ ...constraints, [field]: Math.max(0, parseFloat(value) || 0) });
+  };
+
+  const runOptimizer = () => {
+    const found = optimizeCamParams(motion, params, constraints, searchGeometry && !!geometryLabel);
+    setResult(found);
+    setFailed(!found);
+  };
+
+  const fields: { key: keyof OptimizerConstraints; label: string; show: boolean }[] = [
+    { key: 'maxPressureAngleRise', label: 'Max PA Rise (°)', show: true },
+    { key: 'maxPressureAngleReturn', label: 'Max PA Return (°)', show: true },
+    { key: 'minRadiusOfCurvature', label: 'Min ρ', show: true },
+    { key: 'minCurvatureRatio', label: 'Min ρpitch / r0', show: contactRadius !== null && contactRadius > 0 }
+  ];
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-800">
+      <div className="flex items-center gap-2 mb-3">
+        <Target size={16} className="text-blue-400" />
+        <h2 className="text-lg font-bold text-slate-100">Size Optimizer</h2>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {fields.filter(f => f.show).map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">{label}</label>
+            <input
+              type="number"
+              step="0.5"
+              min="0"
+              value={constraints[key]}
+              onChange={(e) => updateConstraint(key, e.target.value)}
+              className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-200 font-mono"
+            />
+          </div>
+        ))}
+      </div>
+
+      {geometryLabel && (
+        <label className="mt-3 flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <input type="checkbox" checked={searchGeometry} onChange={(e) => setSearchGeometry(e.target.checked)} />
+          {geometryLabel}
+        </label>
+      )}
+
+      <button
+        onClick={runOptimizer}
+        disabled={motion.length === 0}
+        className="mt-3 w-full flex items-center justify-center gap-2 py-2 rounded text-xs font-bold uppercase tracking-wider bg-blue-600 hover:bg-blue-500 text-white shadow-md transition-all"
+      >
+        <Target size={14} /> Find Smallest Cam
+      </button>
+
+      {failed && (
+        <div className="mt-3 p-2.5 bg-amber-900/10 border border-amber-900/30 rounded flex gap-2.5 items-start text-amber-200/70 text-[10px] leading-tight">
+          <AlertCircle size={14} className="shrink-0 text-amber-600" />
+          <p>No geometry in the search range meets all constraints. Relax the limits or change the motion.</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-3 space-y-2">
+          <div className="grid grid-cols-2 gap-x-3 gap-y-0.5 text-[10px] font-mono text-slate-300">
+            <span className="text-slate-500">Base radius</span><span>{result.params.baseRadius.toFixed(2)}</span>
+            {contactRadius !== null && params.followerType.includes('Translating') && (
+              <><span className="text-slate-500">Offset</span><span>{result.params.offset.toFixed(2)}</span></>
+            )}
+            {params.followerType.includes('Oscillating') && (
+              <><span className="text-slate-500">Pivot distance</span><span>{result.params.pivotDistance.toFixed(2)}</span></>
+            )}
+            {contactRadius !== null && params.followerType.includes('Oscillating') && (
+              <><span className="text-slate-500">Arm length</span><span>{result.params.followerLength.toFixed(2)}</span></>
+            )}
+          </div>
+
+          <div className="space-y-0.5">
+            {result.checks.map(check => {
+              const isActive = result.active.includes(check.key);
+              return (
+                <div key={check.key} className={`flex items-center gap-1.5 text-[10px] px-1.5 py-0.5 rounded ${isActive ? 'bg-amber-900/20 text-amber-300' : 'text-slate-400'}`}>
+                  <span className="flex-1">{check.label}</span>
+                  <span className="font-mono">
+                    {isFinite(check.value) ? check.value.toFixed(2) : '∞'} / {check.limit}
+                  </span>
+                  {isActive && <span className="font-bold uppercase text-[9px]">active</span>}
+                </div>
+              );
+            })}
+            {result.active.length === 0 && (
+              <div className="text-[10px] text-slate-500 px-1.5">Limited by the follower geometry, not by a design constraint.</div>
+            )}
+          </div>
+
+          <div className="text-[9px] text-slate-600">{result.evaluations} profile syntheses</div>
+
+          <button
+            onClick={() => onApply(result.params)}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded text-xs font-bold uppercase tracking-wider bg-emerald-600 hover:bg-emerald-500 text-white shadow-md transition-all"
+          >
+            <Check size={14} /> Apply to Cam Geometry
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OptimizerPanel;
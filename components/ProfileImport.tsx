@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { CamParams, FollowerType, MotionSegment } from '../types';
+import { ProfileFormat, parseProfileCsv, recoverMotion } from '../utils/reverseEngineer';
+import { createTabulatedSegment, getDefaultControlPointCount } from '../utils/tabulatedMotion';
+import { ScanLine, AlertCircle, ChevronDown, ChevronRight, Upload } from 'lucide-react';
+
+interface ProfileImportProps {
+  segments: MotionSegment[];
+  params: CamParams; // Follower geometry used to roll over the measured profile
+  onSegmentsChange: (segments: MotionSegment[]) => void;
+  onReferenceChange: (segments: MotionSegment[] | null) => void;
+}
+
+const ProfileImport: React.FC<ProfileImportProps> = ({ segments, params, onSegmentsChange, onReferenceChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [format, setFormat] = useState<ProfileFormat>('xy');
+  const [phase, setPhase] = useState(0);
+  const [zeroMinimum, setZeroMinimum] = useState(true);
+  const [keepReference, setKeepReference] = useState(true);
+  const [controlPointCount, setControlPointCount] = useState<number | ''>('');
+  const [smoothing, setSmoothing] = useState(0.01);
+
+  const isBarrel = params.followerType === FollowerType.BARREL_ROLLER;
+  const unit = params.followerType.includes('Oscillating') ? '°' : 'mm';
+
+  const parsed = useMemo(() => parseProfileCsv(csvText, format), [csvText, format]);
+  const recovered = useMemo(
+    () => (isOpen && parsed.errors.length === 0 && parsed.points.length > 0
+      ? recoverMotion(parsed.points, params, { step: 1, phase, zeroMinimum })
+      : null),
+    [isOpen, parsed, params, phase, zeroMinimum]
+  );
+  const defaultCount = getDefaultControlPointCount(recovered?.points.length ?? 0);
+
+  const result = useMemo(() => {
+    if (!recovered || recovered.points.length === 0) return null;
+    const id = Math.random().toString(36).substr(2, 9);
+    return createTabulatedSegment(id, recovered.points, true, controlPointCount || defaultCount, smoothing);
+  }, [recovered, controlPointCount, defaultCount, smoothing]);
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setCsvText(String(reader.result ?? ''));
+    reader.readAsText(file);
+  };
+
+  const apply = () => {
+    if (!result?.segment) return;
+    onReferenceChange(keepReference ? segments : null);
+    onSegmentsChange([result.segment]);
+  };
+
+  const messages = [
+    ...(isBarrel ? ['Barrel cams cannot be recovered from a plate profile.'] : []),
+    ...(csvText.trim() === '' ? [] : parsed.errors),
+    ...(isBarrel ? [] : recovered?.errors ?? []),
+    ...(result?.errors ?? [])
+  ];
+  const inputClass = "w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono";
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        <ScanLine size={16} className="text-blue-400" />
+        <h2 className="text-lg font-bold text-slate-100">Profile Import</h2>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <p className="text-[10px] text-slate-500 leading-tight">
+            Paste measured profile points in the cam frame. The follower set up under Cam Geometry is rolled
+            over the profile through one revolution to recover its lift, which is then loaded as tabulated motion.
+          </p>
+
+          <div className="flex rounded bg-slate-950 p-0.5 border border-slate-800">
+            {(['xy', 'polar'] as const).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={`flex-1 py-1 rounded text-[10px] font-bold uppercase tracking-wider transition-all ${
+                  format === f ? 'bg-slate-800 text-white' : 'text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {f === 'xy' ? 'x, y' : 'r, angle°'}
+              </button>
+            ))}
+          </div>
+
+          <textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={format === 'xy' ? 'x,y\n60.00,0.00\n59.98,1.05\n...' : 'r,angle\n60.00,0\n60.01,1\n...'}
+            rows={5}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-[10px] text-slate-200 font-mono focus:border-blue-500 focus:outline-none"
+          />
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-700 text-[10px] font-bold text-slate-400 uppercase tracking-wider cursor-pointer hover:text-slate-200 hover:border-slate-500">
+              <Upload size={12} /> CSV File
+              <input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Phase°
+              <input
+                type="number"
+                step="1"
+                value={phase}
+                onChange={(e) => setPhase(parseFloat(e.target.value) || 0)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <input type="checkbox" checked={zeroMinimum} onChange={(e) => setZeroMinimum(e.target.checked)} />
+              Zero Min Lift
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <input type="checkbox" checked={keepReference} onChange={(e) => setKeepReference(e.target.checked)} />
+              Keep Design as Reference
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Control Pts
+              <input
+                type="number"
+                min="6"
+                value={controlPointCount}
+                placeholder={String(defaultCount)}
+                onChange={(e) => setControlPointCount(e.target.value === '' ? '' : Math.max(6, parseInt(e.target.value) || 6))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Smoothing λ
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={smoothing}
+                onChange={(e) => setSmoothing(Math.max(0, parseFloat(e.target.value) || 0))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {messages.length > 0 && (
+            <div className="p-2.5 bg-amber-900/10 border border-amber-900/30 rounded flex gap-2.5 items-start text-[10px] leading-tight">
+              <AlertCircle size={14} className="shrink-0 text-amber-600" />
+              <div className="space-y-0.5">
+                {messages.map((msg, k) => <p key={k} className="text-red-300/80">{msg}</p>)}
+              </div>
+            </div>
+          )}
+
+          {recovered && recovered.points.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-mono text-slate-400">
+                <span>Recovered lift ({parsed.points.length} profile pts)</span>
+                <span>{recovered.minLift.toFixed(3)} – {recovered.maxLift.toFixed(3)} {unit}</span>
+              </div>
+              <div className="h-32 bg-slate-950/60 rounded border border-slate-800">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={recovered.points} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                    <XAxis dataKey="theta" type="number" domain={[0, 360]} ticks={[0, 90, 180, 270, 360]} tick={{fontSize: 9, fill: '#64748b'}} />
+                    <YAxis tick={{fontSize: 9, fill: '#64748b'}} width={35} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                      formatter={(value: number) => [value.toFixed(3), unit]}
+                    />
+                    <Line type="monotone" dataKey="s" stroke="#3b82f6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-[9px] text-slate-600 leading-tight">
+                Sparse points are joined by straight chords, which flattens the recovered lift between them.
+                Raise the smoothing if the measurement is noisy.
+              </p>
+            </div>
+          )}
+
+          <button
+            onClick={apply}
+            disabled={!result?.segment}
+            className={`w-full flex items-center justify-center gap-2 py-2 rounded text-xs font-bold uppercase tracking-wider transition-all ${
+              !result?.segment
+                ? 'bg-slate-800 text-slate-500 cursor-default'
+                : 'bg-blue-600 hover:bg-blue-500 text-white shadow-md'
+            }`}
+          >
+            <ScanLine size={14} /> Load as Tabulated Motion
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfileImport;
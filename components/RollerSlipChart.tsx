@@ -0,0 +1,164 @@
+import React from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea
+} from 'recharts';
+import { RollerSettings, RollerSlipAnalysis } from '../utils/rollerSlip';
+import { AlertCircle, Eye } from 'lucide-react';
+
+interface RollerSlipChartProps {
+  analysis: RollerSlipAnalysis | null;
+  settings: RollerSettings;
+  onSettingsChange: (settings: RollerSettings) => void;
+  showOnProfile: boolean;
+  onShowOnProfileChange: (show: boolean) => void;
+  currentTheta: number;
+}
+
+const SKID_STYLE = { fill: '#f97316', fillOpacity: 0.12 };
+
+const RollerSlipChart: React.FC<RollerSlipChartProps> = ({
+  analysis,
+  settings,
+  onSettingsChange,
+  showOnProfile,
+  onShowOnProfileChange,
+  currentTheta
+}) => {
+  const fields: { key: keyof RollerSettings; label: string; step: string }[] = [
+    { key: 'rollerMass', label: 'Roller (kg)', step: '0.01' },
+    { key: 'traction', label: 'μ Traction', step: '0.01' },
+    { key: 'bearingFriction', label: 'μ Bearing', step: '0.001' },
+    { key: 'pinRadius', label: 'Pin r (mm)', step: '0.5' }
+  ];
+
+  const update = (field: keyof RollerSettings, value: string) => {
+    onSettingsChange({ ...settings, [field]: Math.max(0, parseFloat(value) || 0) });
+  };
+
+  const axisProps = {
+    dataKey: 'theta',
+    type: 'number' as const,
+    domain: [0, 360],
+    tick: { fontSize: 10, fill: '#64748b' },
+    ticks: [0, 90, 180, 270, 360]
+  };
+  const tooltipProps = (unit: string) => ({
+    contentStyle: { backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' },
+    formatter: (value: number, name: string) => [`${value.toFixed(unit === '°' ? 1 : 2)} ${unit}`, name],
+    labelFormatter: (label: number) => `Angle: ${label}°`
+  });
+  // Skid ranges wrapping through 0° are shaded in two parts
+  const skidAreas = (analysis?.skidRanges ?? []).flatMap(r =>
+    r.startAngle <= r.endAngle ? [[r.startAngle, r.endAngle]] : [[r.startAngle, 360], [0, r.endAngle]]);
+  const renderSkid = () => skidAreas.map(([x1, x2], idx) => (
+    <React.Fragment key={idx}>
+      <ReferenceArea x1={x1} x2={x2} {...SKID_STYLE} />
+    </React.Fragment>
+  ));
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-xs font-bold text-slate-400">Roller Slip</div>
+        {fields.map(({ key, label, step }) => (
+          <label key={key} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            {label}
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={settings[key]}
+              onChange={(e) => update(key, e.target.value)}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+            />
+          </label>
+        ))}
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <input type="checkbox" checked={showOnProfile} onChange={(e) => onShowOnProfileChange(e.target.checked)} />
+          <Eye size={12} /> On Profile
+        </label>
+      </div>
+
+      {analysis ? (
+        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-slate-300">
+            J {analysis.rollerInertia.toFixed(2)} kg·mm²
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-amber-400">
+            Max sliding {Math.abs(analysis.maxSlidingVelocity.value).toFixed(1)} mm/s @ {analysis.maxSlidingVelocity.theta.toFixed(0)}°
+          </span>
+          {analysis.skidRanges.map((r, k) => (
+            <span key={k} className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-orange-400">
+              Skid {r.startAngle.toFixed(0)}–{r.endAngle.toFixed(0)}°
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-500">Set a cam speed and a roller radius to check for slip.</p>
+      )}
+
+      {analysis && analysis.skidRanges.length > 0 && (
+        <div className="flex items-center gap-1.5 text-[10px] text-orange-300/80">
+          <AlertCircle size={12} className="shrink-0 text-orange-400" />
+          Traction cannot accelerate the roller fast enough in the shaded ranges; a lighter roller, more preload
+          or a lower bearing drag reduces skidding.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="h-40">
+          <div className="text-[10px] text-slate-500 mb-1">Rolling and sliding speed (mm/s)</div>
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={analysis?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis {...axisProps} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} />
+              <Tooltip {...tooltipProps('mm/s')} />
+              {renderSkid()}
+              <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+              <ReferenceLine y={0} stroke="#334155" />
+              <Line type="monotone" dataKey="rollingSpeed" name="Rolling" stroke="#3b82f6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="slidingVelocity" name="Sliding" stroke="#f97316" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-40">
+          <div className="text-[10px] text-slate-500 mb-1">Required vs available torque (N·mm)</div>
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={analysis?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis {...axisProps} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} />
+              <Tooltip {...tooltipProps('N·mm')} />
+              {renderSkid()}
+              <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="availableTorque" name="Available μNr" stroke="#10b981" strokeWidth={1.5} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="requiredTorque" name="Required Jα" stroke="#f43f5e" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-40 md:col-span-2">
+          <div className="text-[10px] text-slate-500 mb-1">Contact point on the roller rim (°)</div>
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={analysis?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis {...axisProps} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} domain={[0, 360]} ticks={[0, 90, 180, 270, 360]} />
+              <Tooltip {...tooltipProps('°')} />
+              <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="contactAngle" name="Rim angle" stroke="#a78bfa" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <p className="text-[9px] text-slate-600 leading-tight">
+        The roller is a solid disc driven only by contact friction μN·r against its inertia and the bearing drag.
+        Sliding is the rim slip left after three cycles of stick-slip spin. Contact force comes from the contact
+        force panel; the rim angle is measured from the follower stem (from the arm for oscillating followers).
+      </p>
+    </div>
+  );
+};
+
+export default RollerSlipChart;
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import {
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { SimulationPoint } from '../types';
+import { computeSpectrum, reconstructSeries, getReconstructionError, SpectrumQuantity } from '../utils/spectrum';
+
+interface SpectrumChartProps {
+  data: SimulationPoint[];
+  currentTheta: number;
+}
+
+const QUANTITY_LABELS: Record<SpectrumQuantity, string> = {
+  s: 'Displacement',
+  a: 'Acceleration'
+};
+
+const SpectrumChart: React.FC<SpectrumChartProps> = ({ data, currentTheta }) => {
+  const [quantity, setQuantity] = useState<SpectrumQuantity>('s');
+  const [maxHarmonic, setMaxHarmonic] = useState(20);
+
+  const spectrum = useMemo(() => computeSpectrum(data, quantity, maxHarmonic), [data, quantity, maxHarmonic]);
+  const rmsError = useMemo(() => getReconstructionError(data, spectrum), [data, spectrum]);
+
+  const comparison = useMemo(() => data.map(p => ({
+    theta: p.theta,
+    original: p[quantity],
+    truncated: reconstructSeries(spectrum, p.theta)
+  })), [data, spectrum, quantity]);
+
+  const color = quantity === 's' ? '#3b82f6' : '#f59e0b';
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-xs font-bold text-slate-400">Harmonic Spectrum</div>
+        <div className="flex bg-slate-950 rounded border border-slate-700 p-0.5">
+          {(['s', 'a'] as SpectrumQuantity[]).map(q => (
+            <button
+              key={q}
+              onClick={() => setQuantity(q)}
+              className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${quantity === q ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {QUANTITY_LABELS[q]}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          Harmonics
+          <input
+            type="number"
+            min="1"
+            max="100"
+            value={maxHarmonic}
+            onChange={(e) => setMaxHarmonic(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))}
+            className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+          />
+        </label>
+        <div className="ml-auto text-[10px] font-mono text-slate-500">
+          Mean: {spectrum.mean.toFixed(3)} · RMS error: {rmsError.toExponential(2)}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={spectrum.harmonics} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis dataKey="n" tick={{fontSize: 10, fill: '#64748b'}} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={40} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                itemStyle={{ color }}
+                formatter={(value: number) => [value.toFixed(4), 'Amplitude']}
+                labelFormatter={(label) => `Harmonic ${label}`}
+              />
+              <Bar dataKey="amplitude" fill={color} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={comparison} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis
+                dataKey="theta"
+                type="number"
+                domain={[0, 360]}
+                tick={{fontSize: 10, fill: '#64748b'}}
+                ticks={[0, 90, 180, 270, 360]}
+              />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={40} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                formatter={(value: number, name: string) => [value.toFixed(3), name === 'original' ? 'Original' : `${maxHarmonic} harmonics`]}
+                labelFormatter={(label) => `Angle: ${label}°`}
+              />
+              <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="original" stroke={color} strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="truncated" stroke="#e2e8f0" strokeWidth={1} strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpectrumChart;
@@ -0,0 +1,117 @@
+import React from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { ContactStressSettings, MATERIALS, StressAnalysis } from '../utils/contactStress';
+import { Eye } from 'lucide-react';
+
+interface StressChartProps {
+  analysis: StressAnalysis | null;
+  settings: ContactStressSettings;
+  onSettingsChange: (settings: ContactStressSettings) => void;
+  showOnProfile: boolean;
+  onShowOnProfileChange: (show: boolean) => void;
+  currentTheta: number;
+  isKnifeEdge: boolean;
+}
+
+const StressChart: React.FC<StressChartProps> = ({
+  analysis,
+  settings,
+  onSettingsChange,
+  showOnProfile,
+  onShowOnProfileChange,
+  currentTheta,
+  isKnifeEdge
+}) => {
+  const selectClass = "bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200";
+  const factor = analysis?.safetyFactor ?? Infinity;
+  const factorColor = factor >= 1.5 ? 'text-emerald-400' : factor >= 1 ? 'text-amber-400' : 'text-red-400';
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-xs font-bold text-slate-400">Contact Stress</div>
+        {([['camMaterial', 'Cam'], ['followerMaterial', 'Follower']] as const).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            {label}
+            <select
+              value={settings[key]}
+              onChange={(e) => onSettingsChange({ ...settings, [key]: e.target.value })}
+              className={selectClass}
+            >
+              {MATERIALS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          </label>
+        ))}
+        {!analysis?.pointContact && (
+          <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            Width (mm)
+            <input
+              type="number"
+              min="0"
+              step="1"
+              value={settings.faceWidth}
+              onChange={(e) => onSettingsChange({ ...settings, faceWidth: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+            />
+          </label>
+        )}
+        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+          <input type="checkbox" checked={showOnProfile} onChange={(e) => onShowOnProfileChange(e.target.checked)} />
+          <Eye size={12} /> On Profile
+        </label>
+      </div>
+
+      {analysis ? (
+        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-rose-300">
+            σ max {analysis.max.value.toFixed(0)} MPa @ {analysis.max.theta.toFixed(1)}°
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-slate-300">
+            Allowable {analysis.allowableStress} MPa
+          </span>
+          <span className={`px-2 py-0.5 rounded bg-slate-950 border border-slate-800 ${factorColor}`}>
+            Safety factor {isFinite(factor) ? factor.toFixed(2) : '∞'}
+          </span>
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-500">
+          {isKnifeEdge ? 'A knife edge has no finite contact stress.' : 'Enter a face width to compute the stress.'}
+        </p>
+      )}
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={analysis?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="theta"
+              type="number"
+              domain={[0, 360]}
+              tick={{fontSize: 10, fill: '#64748b'}}
+              ticks={[0, 90, 180, 270, 360]}
+            />
+            <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+              itemStyle={{ color: '#fb7185' }}
+              formatter={(value: number) => [`${value.toFixed(0)} MPa`, 'σ']}
+              labelFormatter={(label) => `Angle: ${label}°`}
+            />
+            <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+            {analysis && <ReferenceLine y={analysis.allowableStress} stroke="#ef4444" strokeDasharray="3 3" />}
+            <Line type="monotone" dataKey="stress" stroke="#fb7185" strokeWidth={2} dot={false} connectNulls={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-[9px] text-slate-600 leading-tight">
+        Hertz {analysis?.pointContact ? 'point (elliptical)' : 'line'} contact from the local radius of curvature
+        and the normal force. Gaps mark conforming surfaces (concave profile tighter than the follower).
+      </p>
+    </div>
+  );
+};
+
+export default StressChart;
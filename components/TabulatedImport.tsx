@@ -0,0 +1,185 @@
+import React, { useMemo, useState } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { MotionSegment } from '../types';
+import {
+  parseTabulatedCsv, createTabulatedSegment, getTabulatedFitReport, getDefaultControlPointCount, placeTabulatedSegment
+} from '../utils/tabulatedMotion';
+import { FileUp, AlertCircle, ChevronDown, ChevronRight, Upload, Plus } from 'lucide-react';
+
+interface TabulatedImportProps {
+  segments: MotionSegment[];
+  onSegmentsChange: (segments: MotionSegment[]) => void;
+}
+
+const TabulatedImport: React.FC<TabulatedImportProps> = ({ segments, onSegmentsChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [fullCycle, setFullCycle] = useState(true);
+  const [controlPointCount, setControlPointCount] = useState<number | ''>('');
+  const [smoothing, setSmoothing] = useState(0.01);
+
+  const parsed = useMemo(() => parseTabulatedCsv(csvText), [csvText]);
+  const defaultCount = getDefaultControlPointCount(parsed.points.length);
+
+  const result = useMemo(() => {
+    if (csvText.trim() === '' || parsed.errors.length > 0) return null;
+    const id = Math.random().toString(36).substr(2, 9);
+    return createTabulatedSegment(id, parsed.points, fullCycle, controlPointCount || defaultCount, smoothing);
+  }, [csvText, parsed, fullCycle, controlPointCount, defaultCount, smoothing]);
+
+  // A partial table keeps its own angles: the fitted segment starts at the first tabulated angle
+  const startAngle = fullCycle || parsed.points.length === 0 ? 0 : parsed.points[0].theta;
+  const placement = useMemo(
+    () => (result?.segment && !fullCycle ? placeTabulatedSegment(segments, result.segment, startAngle) : null),
+    [result, fullCycle, segments, startAngle]
+  );
+  const canApply = !!result?.segment && (fullCycle || !!placement?.segments);
+
+  const report = useMemo(
+    () => (result?.segment ? getTabulatedFitReport(result.segment, startAngle) : null),
+    [result, startAngle]
+  );
+
+  const handleFile = (file: File | undefined) => {
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => setCsvText(String(reader.result ?? ''));
+    reader.readAsText(file);
+  };
+
+  const apply = () => {
+    if (!result?.segment) return;
+    if (fullCycle) {
+      onSegmentsChange([result.segment]);
+    } else if (placement?.segments) {
+      onSegmentsChange(placement.segments);
+    }
+  };
+
+  const messages = [
+    ...(csvText.trim() === '' ? [] : parsed.errors),
+    ...(result?.errors ?? []),
+    ...(placement?.errors ?? [])
+  ];
+  const inputClass = "w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono";
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg shadow-lg border border-slate-800">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 text-left"
+      >
+        {isOpen ? <ChevronDown size={16} className="text-slate-500" /> : <ChevronRight size={16} className="text-slate-500" />}
+        <FileUp size={16} className="text-blue-400" />
+        <h2 className="text-lg font-bold text-slate-100">Tabulated Import</h2>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3">
+          <p className="text-[10px] text-slate-500 leading-tight">
+            Paste or load angle/displacement pairs (degrees, absolute lift). The table is smoothed with a
+            quintic P-spline, periodic for a full cycle, and differentiated for v, a and j. A partial table
+            is placed at its own angles after the existing segments, with a dwell filling any gap.
+          </p>
+
+          <textarea
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={'angle,lift\n0,0\n2,0.013\n...'}
+            rows={5}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1.5 text-[10px] text-slate-200 font-mono focus:border-blue-500 focus:outline-none"
+          />
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-700 text-[10px] font-bold text-slate-400 uppercase tracking-wider cursor-pointer hover:text-slate-200 hover:border-slate-500">
+              <Upload size={12} /> CSV File
+              <input type="file" accept=".csv,.txt" className="hidden" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              <input type="checkbox" checked={fullCycle} onChange={(e) => setFullCycle(e.target.checked)} />
+              Full Cycle
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Control Pts
+              <input
+                type="number"
+                min="6"
+                value={controlPointCount}
+                placeholder={String(defaultCount)}
+                onChange={(e) => setControlPointCount(e.target.value === '' ? '' : Math.max(6, parseInt(e.target.value) || 6))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+              Smoothing λ
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={smoothing}
+                onChange={(e) => setSmoothing(Math.max(0, parseFloat(e.target.value) || 0))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          {messages.length > 0 && (
+            <div className="p-2.5 bg-amber-900/10 border border-amber-900/30 rounded flex gap-2.5 items-start text-[10px] leading-tight">
+              <AlertCircle size={14} className="shrink-0 text-amber-600" />
+              <div className="space-y-0.5">
+                {messages.map((msg, k) => <p key={k} className="text-red-300/80">{msg}</p>)}
+              </div>
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-[10px] font-mono text-slate-400">
+                <span>Residuals ({report.samples.length} pts)</span>
+                <span>RMS {report.rms.toExponential(2)} · max {report.maxAbs.toExponential(2)}</span>
+              </div>
+              <div className="h-32 bg-slate-950/60 rounded border border-slate-800">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+                    <XAxis dataKey="theta" type="number" domain={['dataMin', 'dataMax']} tick={{fontSize: 9, fill: '#64748b'}} />
+                    <YAxis dataKey="residual" type="number" tick={{fontSize: 9, fill: '#64748b'}} width={45}
+                      tickFormatter={(value: number) => value.toExponential(0)} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+                      formatter={(value: number) => value.toFixed(5)}
+                    />
+                    <ReferenceLine y={0} stroke="#334155" />
+                    <Scatter data={report.samples} fill="#f59e0b" isAnimationActive={false} />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-[9px] text-slate-600 leading-tight">
+                Residuals should look like noise. A visible pattern means the fit misses real motion and
+                the derived acceleration and jerk are unreliable.
+              </p>
+            </div>
+          )}
+
+          <button
+            onClick={apply}
+            disabled={!canApply}
+            className={`w-full flex items-center justify-center gap-2 py-2 rounded text-xs font-bold uppercase tracking-wider transition-all ${
+              !canApply
+                ? 'bg-slate-800 text-slate-500 cursor-default'
+                : 'bg-blue-600 hover:bg-blue-500 text-white shadow-md'
+            }`}
+          >
+            {fullCycle ? <FileUp size={14} /> : <Plus size={14} />}
+            {fullCycle ? 'Replace Motion' : 'Append Segment'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TabulatedImport;
@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, Legend
+} from 'recharts';
+import { CamDefinition } from '../types';
+import { buildTimingDiagram, findInterferences } from '../utils/timingDiagram';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+
+interface TimingDiagramProps {
+  cams: CamDefinition[];
+}
+
+const INTERFERENCE_STYLE = { fill: '#ef4444', fillOpacity: 0.15, stroke: '#ef4444', strokeOpacity: 0.4 };
+
+const TimingDiagram: React.FC<TimingDiagramProps> = ({ cams }) => {
+  const rows = useMemo(() => buildTimingDiagram(cams), [cams]);
+  const interferences = useMemo(() => findInterferences(cams), [cams]);
+  const sharingCount = cams.filter(c => c.sharedZoneLift !== '' && isFinite(Number(c.sharedZoneLift))).length;
+  const nameOf = (id: string) => cams.find(c => c.id === id)?.name ?? id;
+
+  // Wrapping ranges are drawn as two areas
+  const areas: { x1: number; x2: number }[] = interferences.flatMap(({ startAngle, endAngle }) =>
+    startAngle <= endAngle
+      ? [{ x1: startAngle, x2: endAngle }]
+      : [{ x1: startAngle, x2: 360 }, { x1: 0, x2: endAngle }]
+  );
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-bold text-slate-400">Shaft Timing Diagram</div>
+        <div className="text-[10px] text-slate-500">Machine angle · {cams.length} cam{cams.length === 1 ? '' : 's'}</div>
+      </div>
+
+      <div className="h-56">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={rows} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="machineAngle"
+              type="number"
+              domain={[0, 360]}
+              tick={{fontSize: 10, fill: '#64748b'}}
+              ticks={[0, 45, 90, 135, 180, 225, 270, 315, 360]}
+            />
+            <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={30} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+              formatter={(value: number, id: string) => [value.toFixed(2), nameOf(id)]}
+              labelFormatter={(label) => `Machine: ${label}°`}
+            />
+            <Legend formatter={(id: string) => nameOf(id)} wrapperStyle={{ fontSize: '10px' }} />
+            {areas.map((area, idx) => (
+              <React.Fragment key={idx}>
+                <ReferenceArea x1={area.x1} x2={area.x2} {...INTERFERENCE_STYLE} />
+              </React.Fragment>
+            ))}
+            {cams.map(cam => (
+              <Line
+                key={cam.id}
+                type="monotone"
+                dataKey={cam.id}
+                stroke={cam.color}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {sharingCount >= 2 && (
+        interferences.length === 0 ? (
+          <div className="flex items-center gap-2 text-[10px] text-emerald-400">
+            <CheckCircle2 size={12} /> No interference between followers sharing space.
+          </div>
+        ) : (
+          <div className="p-2.5 bg-red-900/10 border border-red-900/30 rounded flex gap-2.5 items-start text-red-200/80 text-[10px] leading-tight">
+            <AlertCircle size={14} className="shrink-0 text-red-500" />
+            <div className="space-y-0.5">
+              {interferences.map((f, k) => (
+                <p key={k}>
+                  {nameOf(f.camA)} ↔ {nameOf(f.camB)}: {f.startAngle.toFixed(1)}° – {f.endAngle.toFixed(1)}°
+                </p>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default TimingDiagram;
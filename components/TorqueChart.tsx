@@ -0,0 +1,123 @@
+import React from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine
+} from 'recharts';
+import { TorqueAnalysis, TorqueSettings } from '../utils/camTorque';
+import { Download } from 'lucide-react';
+
+interface TorqueChartProps {
+  analysis: TorqueAnalysis | null;
+  settings: TorqueSettings;
+  onSettingsChange: (settings: TorqueSettings) => void;
+  currentTheta: number;
+  programName: string;
+}
+
+const FIELDS: { key: keyof TorqueSettings; label: string; step: string }[] = [
+  { key: 'contactFriction', label: 'μ Contact', step: '0.005' },
+  { key: 'guideFriction', label: 'μ Guide', step: '0.01' },
+  { key: 'speedFluctuation', label: 'Cs', step: '0.005' }
+];
+
+const TorqueChart: React.FC<TorqueChartProps> = ({ analysis, settings, onSettingsChange, currentTheta, programName }) => {
+  const update = (field: keyof TorqueSettings, value: string) => {
+    onSettingsChange({ ...settings, [field]: Math.max(0, parseFloat(value) || 0) });
+  };
+
+  const chartData = (analysis?.points ?? []).map(p => ({ ...p, friction: p.contactLoss + p.guideLoss }));
+
+  const download = () => {
+    if (!analysis) return;
+    const rows = analysis.points.map(p =>
+      [p.theta, p.torque, p.lift, p.contactLoss, p.guideLoss, p.normalForce].map(v => v.toFixed(6)).join(','));
+    const csv = ['theta_deg,torque_Nm,lift_Nm,contact_friction_Nm,guide_friction_Nm,normal_force_N', ...rows].join('\n');
+    const blob = new Blob([csv], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(programName || 'cam').replace(/[^\w-]+/g, '_')}_torque.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-xs font-bold text-slate-400">Camshaft Torque</div>
+        {FIELDS.map(({ key, label, step }) => (
+          <label key={key} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            {label}
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={settings[key]}
+              onChange={(e) => update(key, e.target.value)}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+            />
+          </label>
+        ))}
+        <button
+          onClick={download}
+          disabled={!analysis}
+          className="ml-auto flex items-center gap-1.5 px-2 py-1 rounded border border-slate-700 text-[10px] font-bold text-slate-400 uppercase tracking-wider hover:text-slate-200 hover:border-slate-500"
+        >
+          <Download size={12} /> CSV
+        </button>
+      </div>
+
+      {analysis && (
+        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-violet-300">
+            T̂ {analysis.peak.value.toFixed(2)} N·m @ {analysis.peak.theta.toFixed(1)}°
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-violet-300">
+            RMS {analysis.rms.toFixed(2)} N·m
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-violet-300">
+            Mean {analysis.mean.toFixed(3)} N·m
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-amber-400">
+            ΔE {analysis.energyFluctuation.toFixed(2)} J
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-emerald-400">
+            Flywheel {analysis.flywheelInertia === null ? '—' : `${analysis.flywheelInertia.toExponential(2)} kg·m²`}
+          </span>
+        </div>
+      )}
+
+      <div className="h-48">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+            <XAxis
+              dataKey="theta"
+              type="number"
+              domain={[0, 360]}
+              tick={{fontSize: 10, fill: '#64748b'}}
+              ticks={[0, 90, 180, 270, 360]}
+            />
+            <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' }}
+              formatter={(value: number, name: string) => [`${value.toFixed(3)} N·m`, name]}
+              labelFormatter={(label) => `Angle: ${label}°`}
+            />
+            <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+            <ReferenceLine y={0} stroke="#334155" />
+            {analysis && <ReferenceLine y={analysis.mean} stroke="#a78bfa" strokeDasharray="3 3" />}
+            <Line type="monotone" dataKey="friction" name="Friction" stroke="#f59e0b" strokeWidth={1} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="torque" name="Torque" stroke="#a78bfa" strokeWidth={2} dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <p className="text-[9px] text-slate-600 leading-tight">
+        Power method on the synced profile, using the contact force above. Positive torque is supplied by the drive;
+        the flywheel absorbs the energy swing ΔE within the speed fluctuation Cs.
+      </p>
+    </div>
+  );
+};
+
+export default TorqueChart;
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import {
+  LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea
+} from 'recharts';
+import { LawComparison, MAX_VIBRATION_CYCLES, VibrationResult, VibrationSettings } from '../utils/vibration';
+import { AlertCircle, BarChart3, RefreshCw } from 'lucide-react';
+
+interface VibrationChartProps {
+  result: VibrationResult | null;
+  settings: VibrationSettings;
+  onSettingsChange: (settings: VibrationSettings) => void;
+  onSimulate: () => void;
+  isDirty: boolean; // Inputs changed since the last run
+  onCompare: () => LawComparison[];
+  currentTheta: number;
+  unit: string;
+}
+
+const DWELL_STYLE = { fill: '#64748b', fillOpacity: 0.12 };
+
+const VibrationChart: React.FC<VibrationChartProps> = ({
+  result,
+  settings,
+  onSettingsChange,
+  onSimulate,
+  isDirty,
+  onCompare,
+  currentTheta,
+  unit
+}) => {
+  const [comparison, setComparison] = useState<LawComparison[] | null>(null);
+  // Any change to the motion, speed or train invalidates the table
+  useEffect(() => setComparison(null), [result, isDirty]);
+
+  const fields: { key: keyof VibrationSettings; label: string; step: string; twoDof?: boolean }[] = [
+    { key: 'followerStiffness', label: 'k1 (N/mm)', step: '10' },
+    { key: 'secondMass', label: 'm2 (kg)', step: '0.05', twoDof: true },
+    { key: 'secondStiffness', label: 'k2 (N/mm)', step: '10', twoDof: true },
+    { key: 'secondDamping', label: 'c2 (N·s/m)', step: '1', twoDof: true },
+    { key: 'cycles', label: 'Cycles', step: '1' }
+  ];
+
+  const update = (field: keyof VibrationSettings, value: string) => {
+    const parsed = Math.max(0, parseFloat(value) || 0);
+    onSettingsChange({
+      ...settings,
+      [field]: field === 'cycles' ? Math.min(MAX_VIBRATION_CYCLES, Math.max(1, Math.round(parsed))) : parsed
+    });
+  };
+
+  const axisProps = {
+    dataKey: 'theta',
+    type: 'number' as const,
+    domain: [0, 360],
+    tick: { fontSize: 10, fill: '#64748b' },
+    ticks: [0, 90, 180, 270, 360]
+  };
+  const tooltipProps = {
+    contentStyle: { backgroundColor: '#0f172a', borderColor: '#334155', fontSize: '12px' },
+    formatter: (value: number, name: string) => [`${value.toFixed(4)} ${unit}`, name],
+    labelFormatter: (label: number) => `Angle: ${label}°`
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 p-3 flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="text-xs font-bold text-slate-400">Follower Vibration</div>
+        <div className="flex bg-slate-950 rounded border border-slate-700 p-0.5">
+          {([1, 2] as const).map(dof => (
+            <button
+              key={dof}
+              onClick={() => onSettingsChange({ ...settings, dof })}
+              className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${settings.dof === dof ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {dof}-DOF
+            </button>
+          ))}
+        </div>
+        {fields.filter(f => !f.twoDof || settings.dof === 2).map(({ key, label, step }) => (
+          <label key={key} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+            {label}
+            <input
+              type="number"
+              min={key === 'cycles' ? 1 : 0}
+              max={key === 'cycles' ? MAX_VIBRATION_CYCLES : undefined}
+              step={step}
+              value={settings[key]}
+              onChange={(e) => update(key, e.target.value)}
+              className="w-16 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 font-mono"
+            />
+          </label>
+        ))}
+        <button
+          onClick={onSimulate}
+          disabled={!isDirty}
+          className={`flex items-center gap-1 px-2.5 py-1 rounded text-[10px] font-bold uppercase tracking-wider ${
+            isDirty ? 'bg-blue-600 hover:bg-blue-500 text-white' : 'bg-slate-800 text-slate-500'
+          }`}
+        >
+          <RefreshCw size={12} />
+          {isDirty ? 'Simulate' : 'Up to date'}
+        </button>
+      </div>
+
+      {result ? (
+        <div className="flex flex-wrap gap-2 text-[10px] font-mono">
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-slate-300">
+            fn {result.naturalFrequencies.map(f => f.toFixed(1)).join(' / ')} Hz
+          </span>
+          <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-amber-400">
+            Max error {Math.abs(result.maxError.value).toFixed(4)} {unit} @ {result.maxError.theta.toFixed(0)}°
+          </span>
+          {result.cycles < settings.cycles && (
+            <span className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-slate-400">
+              {result.cycles} cycle{result.cycles > 1 ? 's' : ''} run (step budget)
+            </span>
+          )}
+          {result.dwells.map((d, k) => (
+            <span key={k} className="px-2 py-0.5 rounded bg-slate-950 border border-slate-800 text-sky-300">
+              Dwell {d.startAngle.toFixed(0)}–{d.endAngle.toFixed(0)}°: ±{d.residual.toFixed(4)}
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[10px] text-slate-500">
+          {isDirty
+            ? 'Press Simulate to integrate the follower train at the current settings.'
+            : 'Set a cam speed, the follower mass and a train stiffness to simulate.'}
+        </p>
+      )}
+
+      {result?.separated && (
+        <div className="flex items-center gap-1.5 text-[10px] text-red-300/80">
+          <AlertCircle size={12} className="shrink-0 text-red-400" />
+          The follower leaves the cam during the cycle; the results past the jump depend on the return spring only.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="h-40">
+          <div className="text-[10px] text-slate-500 mb-1">Actual vs intended</div>
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={result?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis {...axisProps} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={35} />
+              <Tooltip {...tooltipProps} />
+              <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+              <Line type="monotone" dataKey="intended" name="Intended" stroke="#3b82f6" strokeWidth={1.5} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+              <Line type="monotone" dataKey="actual" name="Actual" stroke="#f472b6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="h-40">
+          <div className="text-[10px] text-slate-500 mb-1">Dynamic error (dwells shaded)</div>
+          <ResponsiveContainer width="100%" height="90%">
+            <LineChart data={result?.points ?? []} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1e293b" />
+              <XAxis {...axisProps} />
+              <YAxis tick={{fontSize: 10, fill: '#64748b'}} width={45} />
+              <Tooltip {...tooltipProps} />
+              {(result?.dwells ?? []).map((d, idx) => (
+                <React.Fragment key={idx}>
+                  <ReferenceArea x1={d.startAngle} x2={d.endAngle} {...DWELL_STYLE} />
+                </React.Fragment>
+              ))}
+              <ReferenceLine x={currentTheta} stroke="white" strokeDasharray="3 3" />
+              <ReferenceLine y={0} stroke="#334155" />
+              <Line type="monotone" dataKey="error" name="Error" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <button
+          onClick={() => setComparison(onCompare())}
+          disabled={!result || isDirty}
+          className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-700 text-[10px] font-bold text-slate-400 uppercase tracking-wider hover:text-slate-200 hover:border-slate-500"
+        >
+          <BarChart3 size={12} /> Compare Motion Laws
+        </button>
+        {comparison && (comparison.length === 0 ? (
+          <p className="text-[10px] text-slate-500">The program has no standard rise or return segments to swap.</p>
+        ) : (
+          <table className="w-full text-[10px] font-mono">
+            <thead>
+              <tr className="text-slate-500">
+                <th className="text-left font-normal">Law (all rises / returns)</th>
+                <th className="text-right font-normal">Max error</th>
+                <th className="text-right font-normal">Dwell residual</th>
+                <th className="text-right font-normal">Contact</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.map(row => (
+                <tr key={row.type} className="text-slate-300">
+                  <td className="text-slate-400">{row.type}</td>
+                  <td className="text-right">{row.maxError.toFixed(4)}</td>
+                  <td className="text-right">{row.maxResidual.toFixed(4)}</td>
+                  <td className={`text-right ${row.separated ? 'text-red-400' : 'text-emerald-400'}`}>{row.separated ? 'jump' : 'ok'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </div>
+
+      <p className="text-[9px] text-slate-600 leading-tight">
+        Mass, return spring, preload, damping and load come from the contact force panel. The error is measured
+        from the quasi-static position of the elastic train, so it shows only the vibration.
+      </p>
+    </div>
+  );
+};
+
+export default VibrationChart;
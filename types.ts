@@ -4,14 +4,55 @@ export enum MotionType {
   PARABOLIC = 'Parabolic',
   HARMONIC = 'Harmonic',
   CYCLOIDAL = 'Cycloidal',
-  POLYNOMIAL_345 = 'Polynomial 3-4-5'
+  POLYNOMIAL_345 = 'Polynomial 3-4-5',
+  MODIFIED_TRAPEZOID = 'Modified Trapezoid',
+  MODIFIED_SINE = 'Modified Sine',
+  POLYNOMIAL_4567 = 'Polynomial 4-5-6-7',
+  CUSTOM_POLYNOMIAL = 'Custom Polynomial',
+  B_SPLINE = 'B-Spline',
+  TABULATED = 'Tabulated'
 }
 
 export enum FollowerType {
   TRANSLATING_ROLLER = 'Translating Roller',
   TRANSLATING_FLAT = 'Translating Flat-Faced',
   OSCILLATING_ROLLER = 'Oscillating Roller',
-  OSCILLATING_FLAT = 'Oscillating Flat-Faced'
+  OSCILLATING_FLAT = 'Oscillating Flat-Faced',
+  TRANSLATING_KNIFE_EDGE = 'Translating Knife-Edge',
+  TRANSLATING_SPHERICAL = 'Translating Spherical-Faced',
+  OSCILLATING_SPHERICAL = 'Oscillating Spherical-Faced',
+  // Cylindrical cam: the roller moves parallel to the cam axis in a groove around the cylinder
+  BARREL_ROLLER = 'Barrel Roller'
+}
+
+// Boundary conditions for a Custom Polynomial segment.
+// Displacements are absolute; derivatives are per radian of cam angle (same as SimulationPoint).
+// Jerk values are optional: leave blank to drop that condition and lower the polynomial degree.
+export interface PolynomialBoundary {
+  s0: number | string;
+  v0: number | string;
+  a0: number | string;
+  j0?: number | string;
+  s1: number | string;
+  v1: number | string;
+  a1: number | string;
+  j1?: number | string;
+}
+
+// Control points (absolute displacements) of a uniform B-spline segment.
+// A spline of degree p is C^(p-1) continuous; a full 360° segment is closed periodically.
+export interface SplineDefinition {
+  degree: number;
+  controlPoints: (number | string)[];
+}
+
+// Imported angle/displacement table of a Tabulated segment.
+// Angles are relative to the segment start (degrees), displacements are absolute.
+// The smoothing spline fitted to it is stored in the segment's `spline`.
+export interface TabulatedDefinition {
+  points: { theta: number; s: number }[];
+  controlPointCount: number;
+  smoothing: number; // Weight of the third-difference roughness penalty (0 = plain least squares)
 }
 
 export interface MotionSegment {
@@ -19,17 +60,60 @@ export interface MotionSegment {
   type: MotionType;
   duration: number | string; // Duration of this segment in degrees
   deltaLift: number | string; // Change in lift during this segment (Rise = +, Return = -)
+  polynomial?: PolynomialBoundary; // Only used by Custom Polynomial segments
+  spline?: SplineDefinition; // Used by B-Spline segments and as the fitted curve of Tabulated segments
+  table?: TabulatedDefinition; // Only used by Tabulated segments
+}
+
+// High-level motion program entry: an event between absolute cam angles.
+// Gaps between events become dwells.
+export interface MotionEvent {
+  id: string;
+  kind: 'rise' | 'return';
+  type: MotionType;
+  startAngle: number | string; // degrees
+  endAngle: number | string; // degrees
+  lift: number | string; // Rise amount; for a return, blank means back to zero lift
 }
 
 export interface CamParams {
   followerType: FollowerType;
-  baseRadius: number; // rb
+  baseRadius: number; // rb (barrel cams: pitch radius of the cylinder)
   followerRadius: number; // r0 (for rollers)
+  faceRadius: number; // Radius of the spherical (mushroom) face
+  faceAngle: number; // Tilt of a translating flat face from the perpendicular to the stem (degrees)
   offset: number; // d (for translating)
   pivotDistance: number; // r1 (distance between cam pivot and follower pivot)
   followerLength: number; // r3 (distance from follower pivot to roller center/contact)
   startAngleOffset: number; // To align simulation
   rotation: 'CW' | 'CCW';
+  driveMode: DriveMode;
+}
+
+// How the follower is kept on the cam:
+// spring = force closed; groove = roller runs in a groove (rollers only);
+// conjugate = a second disc drives a second follower on the same follower body.
+export type DriveMode = 'spring' | 'groove' | 'conjugate';
+
+// Second cam surface of a positive-drive cam: the outer groove wall or the conjugate disc.
+// Radius of curvature is signed like the main profile (positive where the material is convex
+// toward its follower), so the same undercut test applies.
+export interface SecondaryContact {
+  x: number; // Cam frame
+  y: number;
+  pressureAngle: number;
+  radiusOfCurvature: number;
+}
+
+// One cam of a multi-cam project. All cams share the machine camshaft;
+// params.startAngleOffset is the machine angle at which this cam's 0° occurs.
+export interface CamDefinition {
+  id: string;
+  name: string;
+  color: string;
+  segments: MotionSegment[];
+  params: CamParams;
+  sharedZoneLift: number | string; // Follower occupies the shared space above this lift (blank = not shared)
 }
 
 export interface SimulationPoint {
@@ -38,8 +122,49 @@ export interface SimulationPoint {
   v: number; // Velocity
   a: number; // Acceleration
   j: number; // Jerk
-  x: number; // Cam profile X
-  y: number; // Cam profile Y
+  x: number; // Cam profile X (barrel cams: developed circumferential position on the pitch cylinder)
+  y: number; // Cam profile Y (barrel cams: axial position)
   pressureAngle: number;
   radiusOfCurvature: number;
+  // Flat-faced followers: contact position along the face. Oscillating: from the foot of the
+  // perpendicular from the pivot, positive toward the cam center. Translating: from the stem axis,
+  // positive along (-sin delta, cos delta) for face angle delta.
+  faceContact?: number;
+  secondary?: SecondaryContact; // Positive-drive cams only (see DriveMode)
+}
+
+export type ContinuitySeverity = 'pass' | 'warning' | 'fail';
+
+export interface KinematicJumps {
+  s: number;
+  v: number;
+  a: number;
+  j: number;
 }
+
+// Jumps (right - left) in s/v/a/j at a junction between two motion segments
+export interface BoundaryContinuity {
+  theta: number; // Junction angle in degrees (0 for the 360° -> 0° wrap)
+  fromLabel: string;
+  toLabel: string;
+  isWrap: boolean;
+  jumps: KinematicJumps;
+  severity: ContinuitySeverity;
+  message: string;
+}
+
+export type FeasibilityKind = 'undercut' | 'cusp';
+
+// An angle range where the follower cannot generate the intended motion:
+// undercut = roller larger than the convex pitch-curve radius, cusp = flat-follower profile radius < 0.
+export interface FeasibilityViolation {
+  kind: FeasibilityKind;
+  startAngle: number; // degrees; startAngle > endAngle when the range wraps through 0°
+  endAngle: number;
+  worstAngle: number;
+  worstRadius: number; // Smallest pitch radius (undercut) or most negative profile radius (cusp)
+  minBaseRadius: number | null; // Smallest base radius that clears this range (null if none found)
+  maxFollowerRadius: number | null; // Largest roller / face radius that clears it (rollers and spherical faces only)
+  message: string;
+}
+
@@ -0,0 +1,35 @@
+export interface AngleRange {
+  startAngle: number;
+  endAngle: number; // Below startAngle when the range wraps through 0°
+}
+
+// Groups consecutive samples of the same kind into runs. A run that reaches the last sample joins
+// one starting at the first, since the cycle continues across 360° -> 0°.
+export const findAngleRuns = <T, K>(points: T[], classify: (p: T) => K | null) => {
+  const runs: { kind: K; points: T[] }[] = [];
+  let current: { kind: K; points: T[] } | null = null;
+  points.forEach(p => {
+    const kind = classify(p);
+    if (kind !== null && current?.kind === kind) {
+      current.points.push(p);
+    } else {
+      current = kind !== null ? { kind, points: [p] } : null;
+      if (current) runs.push(current);
+    }
+  });
+  if (runs.length > 1) {
+    const first = runs[0];
+    const last = runs[runs.length - 1];
+    if (first.kind === last.kind && first.points[0] === points[0] && last.points[last.points.length - 1] === points[points.length - 1]) {
+      first.points = [...runs.pop()!.points, ...first.points];
+    }
+  }
+  return runs;
+};
+
+// Angle ranges of consecutive samples that pass the test
+export const getAngleRanges = <T extends { theta: number }>(points: T[], test: (p: T) => boolean): AngleRange[] =>
+  findAngleRuns(points, p => (test(p) ? true : null)).map(run => ({
+    startAngle: run.points[0].theta,
+    endAngle: run.points[run.points.length - 1].theta
+  }));
@@ -0,0 +1,144 @@
+import { MotionSegment } from '../types';
+
+interface SplineBasis {
+  degree: number;
+  knots: number[];
+  controlPoints: number[];
+}
+
+// A B-spline on the normalized interval 0 <= u <= 1 together with its first three derivative splines.
+export interface BSplineCurve {
+  degree: number;
+  periodic: boolean;
+  derivatives: SplineBasis[]; // [curve, d/du, d2/du2, d3/du3]
+}
+
+export const MIN_SPLINE_DEGREE = 2;
+export const MAX_SPLINE_DEGREE = 5;
+
+// Derivative of a B-spline is a B-spline of one degree lower:
+// Q_i = p * (P_{i+1} - P_i) / (t_{i+p+1} - t_{i+1}), on the knot vector with the end knots dropped.
+const differentiate = ({ degree: p, knots, controlPoints }: SplineBasis): SplineBasis => {
+  if (p === 0) {
+    return { degree: 0, knots, controlPoints: controlPoints.map(() => 0) };
+  }
+  const Q: number[] = [];
+  for (let i = 0; i < controlPoints.length - 1; i++) {
+    const span = knots[i + p + 1] - knots[i + 1];
+    Q.push(span > 0 ? (p * (controlPoints[i + 1] - controlPoints[i])) / span : 0);
+  }
+  return { degree: p - 1, knots: knots.slice(1, -1), controlPoints: Q };
+};
+
+// De Boor's algorithm
+const deBoor = ({ degree: p, knots, controlPoints }: SplineBasis, u: number): number => {
+  const n = controlPoints.length;
+  // Locate span k with t_k <= u < t_{k+1}, clamped to the valid domain
+  let k = p;
+  while (k < n - 1 && u >= knots[k + 1]) k++;
+
+  const d = [];
+  for (let j = 0; j <= p; j++) d.push(controlPoints[j + k - p]);
+
+  for (let r = 1; r <= p; r++) {
+    for (let j = p; j >= r; j--) {
+      const left = knots[j + k - p];
+      const right = knots[j + 1 + k - r];
+      const alpha = right > left ? (u - left) / (right - left) : 0;
+      d[j] = (1 - alpha) * d[j - 1] + alpha * d[j];
+    }
+  }
+  return d[p];
+};
+
+// Clamped (open uniform) splines interpolate the first and last control points.
+// Periodic (closed uniform) splines wrap the first `degree` control points around so the curve is
+// C^(degree-1) across u = 1 -> 0 as well.
+const createBasis = (controlPoints: number[], degree: number, periodic: boolean): SplineBasis => {
+  const n = controlPoints.length;
+  const knots: number[] = [];
+  if (periodic) {
+    for (let i = 0; i <= n + 2 * degree; i++) knots.push((i - degree) / n);
+    return { degree, knots, controlPoints: [...controlPoints, ...controlPoints.slice(0, degree)] };
+  }
+  for (let i = 0; i <= degree; i++) knots.push(0);
+  for (let i = 1; i < n - degree; i++) knots.push(i / (n - degree));
+  for (let i = 0; i <= degree; i++) knots.push(1);
+  return { degree, knots, controlPoints: [...controlPoints] };
+};
+
+export const buildBSpline = (controlPoints: number[], degree: number, periodic: boolean): BSplineCurve | null => {
+  if (degree < 1 || controlPoints.length < degree + 1) return null;
+
+  const derivatives: SplineBasis[] = [createBasis(controlPoints, degree, periodic)];
+  for (let order = 1; order <= 3; order++) {
+    derivatives.push(differentiate(derivatives[order - 1]));
+  }
+  return { degree, periodic, derivatives };
+};
+
+// Values of all n basis functions at u (row of the collocation matrix used for least-squares fits).
+export const evaluateBasisFunctions = (n: number, degree: number, periodic: boolean, u: number): number[] => {
+  const t = Math.max(0, Math.min(1, u));
+  const unit = new Array(n).fill(0);
+  return unit.map((_, i) => {
+    unit[i] = 1;
+    const value = deBoor(createBasis(unit, degree, periodic), t);
+    unit[i] = 0;
+    return value;
+  });
+};
+
+// Returns [s, ds/du, d2s/du2, d3s/du3] at u.
+export const evaluateBSpline = (curve: BSplineCurve, u: number): [number, number, number, number] => {
+  const t = Math.max(0, Math.min(1, u));
+  const [s, v, a, j] = curve.derivatives.map(basis => deBoor(basis, t));
+  return [s, v, a, j];
+};
+
+// A B-spline segment that spans the whole cycle is closed periodically, otherwise it is clamped.
+export const getSegmentSpline = (segment: MotionSegment): BSplineCurve | null => {
+  if (!segment.spline) return null;
+  const controlPoints = segment.spline.controlPoints.map(p => Number(p) || 0);
+  const periodic = Math.abs((Number(segment.duration) || 0) - 360) < 1e-6;
+  return buildBSpline(controlPoints, segment.spline.degree, periodic);
+};
+
+// End conditions a clamped segment can meet at each junction: s, v, a and j are the orders the motion
+// carries, so a degree 5 spline is matched through jerk only.
+export const getSplineEndOrders = (degree: number) => Math.min(degree, 4);
+
+// Sets the end control points of a clamped spline so that [s, ds/du, d2s/du2, d3s/du3] take the given
+// values at u = 0 and u = 1. The r-th derivative at u = 0 depends only on P_0..P_r (at u = 1 on the last
+// r + 1 points), so each order is solved for one new point. Returns null if the two ends would share points.
+export const matchSplineEnds = (
+  controlPoints: number[],
+  degree: number,
+  start: number[],
+  end: number[]
+): number[] | null => {
+  const n = controlPoints.length;
+  const orders = getSplineEndOrders(degree);
+  if (n < 2 * orders || n < degree + 1) return null;
+
+  const unit = new Array(n).fill(0);
+  const rows = unit.map((_, i) => {
+    unit[i] = 1;
+    const curve = buildBSpline(unit, degree, false)!;
+    unit[i] = 0;
+    return [evaluateBSpline(curve, 0), evaluateBSpline(curve, 1)];
+  });
+
+  const points = [...controlPoints];
+  for (let r = 0; r < orders; r++) {
+    let known = 0;
+    for (let k = 0; k < r; k++) known += rows[k][0][r] * points[k];
+    points[r] = (start[r] - known) / rows[r][0][r];
+
+    const last = n - 1 - r;
+    known = 0;
+    for (let k = last + 1; k < n; k++) known += rows[k][1][r] * points[k];
+    points[last] = (end[r] - known) / rows[last][1][r];
+  }
+  return points;
+};
@@ -1,13 +1,87 @@
-import { CamParams, FollowerType, SimulationPoint } from '../types';
+import { CamParams, FollowerType, SimulationPoint, SecondaryContact } from '../types';
+import { MotionProgram, sampleMotion } from './motionMath';
 
 // Helper to convert degrees to radians
 const rad = (deg: number) => deg * Math.PI / 180;
 const deg = (rad: number) => rad * 180 / Math.PI;
 
-export const calculateCamProfile = (points: SimulationPoint[], params: CamParams): SimulationPoint[] => {
+type Vec2 = [number, number];
+
+// Radius of curvature of the curve traced in the cam frame by a point moving as B(theta) in the fixed frame.
+// Cam frame: P = Rot(sgn*theta) B, so with J = rotation by +90 deg
+//   P'  = Rot (B' + sgn J B)
+//   P'' = Rot (B'' + 2 sgn J B' - B)
+// rho = sgn |P'|^3 / (P' x P''), positive where the curve is convex (e.g. rb on the base circle).
+const getPathRadiusOfCurvature = (B: Vec2, B1: Vec2, B2: Vec2, sgn: number): number => {
+  const q1: Vec2 = [B1[0] - sgn * B[1], B1[1] + sgn * B[0]];
+  const q2: Vec2 = [B2[0] - 2 * sgn * B1[1] - B[0], B2[1] + 2 * sgn * B1[0] - B[1]];
+  const cross = q1[0] * q2[1] - q1[1] * q2[0];
+  return (sgn * Math.pow(q1[0] * q1[0] + q1[1] * q1[1], 1.5)) / cross;
+};
+
+// Wraps the angle between two lines into (-90, 90] degrees
+const wrapLineAngle = (angle: number) => {
+  let a = angle;
+  while (a > Math.PI / 2) a -= Math.PI;
+  while (a <= -Math.PI / 2) a += Math.PI;
+  return a;
+};
+
+// Roller, knife-edge and spherical-faced followers touch the cam along a circle of this radius
+// around a point that moves with the follower (roller center, knife tip, face center of curvature),
+// so they share the roller equations. Returns null for flat-faced followers.
+export const getContactRadius = (params: CamParams): number | null => {
+  switch (params.followerType) {
+    case FollowerType.TRANSLATING_ROLLER:
+    case FollowerType.OSCILLATING_ROLLER:
+    case FollowerType.BARREL_ROLLER:
+      return params.followerRadius;
+    case FollowerType.TRANSLATING_SPHERICAL:
+    case FollowerType.OSCILLATING_SPHERICAL:
+      return params.faceRadius;
+    case FollowerType.TRANSLATING_KNIFE_EDGE:
+      return 0;
+    default:
+      return null;
+  }
+};
+
+// Arm angle phi0 at zero lift of an oscillating follower (Eq 10.31 / Table 10.12), radians
+export const getInitialArmAngle = (params: CamParams): number => {
+  const { baseRadius: rb, pivotDistance: r1, followerLength: r3, offset: d } = params;
+  const contactRadius = getContactRadius(params);
+  if (contactRadius !== null) {
+    const term = (r1 * r1 + r3 * r3 - Math.pow(rb + contactRadius, 2)) / (2 * r1 * r3);
+    return Math.acos(Math.max(-1, Math.min(1, term)));
+  }
+  const AE = (r1 * rb) / (rb + d);
+  return Math.atan2(rb, Math.sqrt(Math.max(0, AE * AE - rb * rb)));
+};
+
+// Fixed-frame center of the contact circle (roller center) at lift s.
+// Translating: stem along x at y = d. Oscillating: pivot at (r1, 0), arm angle phi0 + s.
+export const getContactCenter = (params: CamParams, s: number): Vec2 => {
+  const { baseRadius: rb, offset: d, pivotDistance: r1, followerLength: r3 } = params;
+  if (params.followerType.includes('Oscillating')) {
+    const phi = getInitialArmAngle(params) + rad(s);
+    return [r1 - r3 * Math.cos(phi), r3 * Math.sin(phi)];
+  }
+  const r0 = getContactRadius(params) ?? 0;
+  return [Math.sqrt(Math.pow(rb + r0, 2) - d * d) + s, d];
+};
+
+// Velocity of the follower body at fixed-frame point P per unit cam speed, for lift rate v per radian.
+// The arm turns about the pivot so that the center above moves by (r3 sin phi, r3 cos phi) phi'.
+export const getFollowerPointVelocity = (params: CamParams, v: number, P: Vec2): Vec2 => {
+  if (!params.followerType.includes('Oscillating')) return [v, 0];
+  const phiRate = rad(v);
+  return [phiRate * P[1], -phiRate * (P[0] - params.pivotDistance)];
+};
+
+// Synthesizes the cam profile point (contact coordinates, pressure angle, curvature) for one motion state
+export const calculateProfilePoint = (pt: SimulationPoint, params: CamParams): SimulationPoint => {
   const { 
     baseRadius: rb, 
-    followerRadius: r0, 
     offset: d, 
     rotation, 
     pivotDistance: r1, 
@@ -16,253 +90,378 @@ export const calculateCamProfile = (points: SimulationPoint[], params: CamParams
   } = params;
 
   const sgn = rotation === 'CW' ? 1 : -1;
+  const contactRadius = getContactRadius(params);
+  const r0 = contactRadius ?? 0;
 
-  return points.map(pt => {
-    const { theta, s, v, a } = pt; // s is lift, v is ds/dtheta (velocity), a is d2s/dtheta2
-    
-    // Basic definitions from PDF
-    // f(theta) = s
-    // f'(theta) = v
-    // f''(theta) = a
-    // All derivatives are with respect to theta in RADIANS. v and a coming from calculateMotion are already w.r.t radians.
-    
-    let x = 0;
-    let y = 0;
-    let pressureAngle = 0;
-    let radiusOfCurvature = 0;
-
-    // --- 1. Translating Roller Follower (Table 10.8) ---
-    if (followerType === FollowerType.TRANSLATING_ROLLER) {
-      // z = s
-      const z = s;
-      // R = sqrt((rb + r0)^2 - d^2) + z  (Wait, PDF Eq 10.17 says R is distance from cam center to follower center. 
-      // Actually, standard practice: usually s is the lift above the prime circle? 
-      // The PDF says "base circle represents position of follower at zero lift". 
-      // So at s=0, distance is sqrt((rb+r0)^2 - d^2). Yes.
-      const R_prime = Math.sqrt(Math.pow(rb + r0, 2) - Math.pow(d, 2));
-      const R = R_prime + z;
-      
-      // R' = z' = sgn * v
-      const R_deriv = sgn * v;
-      
-      // b = R'
-      const b = R_deriv;
-      
-      // Pressure angle phi
-      // phi = tan^-1( (b - d) / R )
-      const phi = Math.atan((b - d) / R);
-      pressureAngle = deg(phi);
-      
-      // Coordinates
-      // gamma = tan^-1[ (d + r0 sin(phi)) / (R - r0 cos(phi)) ]
-      // Note: we must handle quadrant carefully for gamma? usually simple atan2 or just atan if in range.
-      // PDF says tan^-1, let's use atan2 for safety: atan2(y, x)
-      const num = d + r0 * Math.sin(phi);
-      const den = R - r0 * Math.cos(phi);
-      const gamma = Math.atan2(num, den);
-      
-      // r (magnitude) = sqrt( (d + r0 sin phi)^2 + (R - r0 cos phi)^2 )
-      const r_mag = Math.sqrt(Math.pow(num, 2) + Math.pow(den, 2));
-      
-      // Final coordinates (x, y) relative to cam
-      // x = r * cos(gamma + theta)
-      // y = r * sin(gamma + theta)
-      // NOTE: theta in PDF equations for x,y depends on CW/CCW conventions.
-      // "The coordinate system attached to the cam is designated as (x,y). The cam rotates... coordinate system rotates by angle theta"
-      // If sgn=1 (CW), we usually plot angle as negative theta? Or theta grows. 
-      // Eq 10.20 says x = r cos(gamma + theta). Let's use theta in radians.
-      // However, if we simply rotate the points, we assume theta increases.
-      
-      // Correction: If cam rotates CW, the contact point moves CCW relative to cam.
-      // Typically, profile is generated by plotting (r, gamma) at angle -theta (for CW). 
-      // PDF Eq 10.20 uses `gamma + theta`. Let's stick to the PDF exactly.
-      const thetaRad = rad(theta);
-      const angle = gamma + (sgn === 1 ? thetaRad : -thetaRad); // Wait, if CW, sgn=1.
-      
-      // Actually, let's look at Example 10.7 logic or similar.
-      // Usually for CW cam, we plot at (gamma + theta). 
-      // Let's assume the PDF formulas account for the rotation direction via the sgn in derivatives?
-      // "The variable sgn is used because... sgn=1 for CW". 
-      // Let's trust Eq 10.20: x = r cos(gamma + theta), y = r sin(gamma + theta).
-      // Note: if theta goes 0 -> 360, this draws the cam.
-      
-      x = r_mag * Math.cos(gamma + (rotation === 'CW' ? thetaRad : -thetaRad));
-      y = r_mag * Math.sin(gamma + (rotation === 'CW' ? thetaRad : -thetaRad));
-
-      // Radius of curvature (Table 10.8)
-      // rho = [ ( (x')^2 + (y')^2 )^1.5 ] / ... complex
-      // Or numerically.
-      // Or alternative simplified form if derived: rho = [R^2 + (R')^2]^1.5 / ... for knife edge. 
-      // For roller, it's specific.
-      // Let's use the numerical approximation in visualization or just skip exact calculation for now as it requires second derivatives of coordinates.
-      // But we have `a` (f''). 
-      // PDF Eq after 10.30: rho_pitch = [ (R^2 + (R')^2)^1.5 ] / [ R^2 + 2(R')^2 - R(R'') ].
-      // Then rho_cam = rho_pitch - r0.
-      // Let's use this simplification for translating roller which is standard.
-      // R = R_prime + s
-      // R' = sgn * v
-      // R'' = sgn^2 * a = a (since sgn^2 is 1)
-      
-      const numRho = Math.pow(R*R + R_deriv*R_deriv, 1.5);
-      const denRho = R*R + 2*R_deriv*R_deriv - R*(a); // a is z''
-      const rho_pitch = numRho / denRho;
-      radiusOfCurvature = rho_pitch - r0;
-    }
+  const { theta, s, v, a } = pt; // s is lift, v is ds/dtheta (velocity), a is d2s/dtheta2
+  
+  // Basic definitions from PDF
+  // f(theta) = s
+  // f'(theta) = v
+  // f''(theta) = a
+  // All derivatives are with respect to theta in RADIANS. v and a coming from calculateMotion are already w.r.t radians.
+  
+  let x = 0;
+  let y = 0;
+  let pressureAngle = 0;
+  let radiusOfCurvature = 0;
+  let faceContact: number | undefined;
+  // Roller center in the cam frame and the radius of the curve it traces (roller types)
+  let pitch: Vec2 | undefined;
+  let rhoPitch = 0;
 
-    // --- 2. Translating Flat-Faced Follower (Table 10.9) ---
-    else if (followerType === FollowerType.TRANSLATING_FLAT) {
-      // z = s
-      const z = s;
-      // R = rb + z
-      const R = rb + z;
-      // R' = z' = sgn * v
-      const z_prime = sgn * v;
-      const z_double_prime = a; // sgn^2 * a = a
-      
-      // Coordinates (Table 10.9)
-      // x = (rb + z)*cos(theta) - z'*sin(theta)
-      // y = (rb + z)*sin(theta) + z'*cos(theta)
-      // Wait, is this theta dependent on CW/CCW? 
-      // The table equations x, y use theta directly. 
-      // For CW, we probably need to handle theta direction if we want the cam to look stationary while follower moves? 
-      // Or usually these eq produce the profile relative to a stationary cam.
-      // Let's adjust theta based on rotation.
-      const thetaRad = rotation === 'CW' ? rad(theta) : -rad(theta);
-
-      x = (rb + z) * Math.cos(thetaRad) - z_prime * Math.sin(thetaRad);
-      y = (rb + z) * Math.sin(thetaRad) + z_prime * Math.cos(thetaRad);
-      
-      // Pressure angle is always 0 for flat faced perpendicular to stem (d=0).
-      // If d != 0, it's still 0 physically but torque exists? 
-      // PDF says "pressure angle is always zero".
-      pressureAngle = 0;
-      
-      // Radius of curvature
-      // rho = rb + f(theta) + f''(theta)
-      // rho = rb + z + z''
-      radiusOfCurvature = rb + z + z_double_prime;
-    }
+  // --- 1. Translating Roller Follower (Table 10.8) ---
+  // Knife edge (r0 = 0) and spherical face (r0 = face radius) use the same equations
+  if (contactRadius !== null && followerType.includes('Translating')) {
+    // z = s
+    const z = s;
+    // R = sqrt((rb + r0)^2 - d^2) + z  (Wait, PDF Eq 10.17 says R is distance from cam center to follower center. 
+    // Actually, standard practice: usually s is the lift above the prime circle? 
+    // The PDF says "base circle represents position of follower at zero lift". 
+    // So at s=0, distance is sqrt((rb+r0)^2 - d^2). Yes.
+    const R_prime = Math.sqrt(Math.pow(rb + r0, 2) - Math.pow(d, 2));
+    const R = R_prime + z;
+    
+    // R' = z' = sgn * v
+    const R_deriv = sgn * v;
+    
+    // b = R'
+    const b = R_deriv;
+    
+    // Pressure angle phi
+    // phi = tan^-1( (b - d) / R )
+    const phi = Math.atan((b - d) / R);
+    pressureAngle = deg(phi);
+    
+    // Coordinates
+    // gamma = tan^-1[ (d + r0 sin(phi)) / (R - r0 cos(phi)) ]
+    // Note: we must handle quadrant carefully for gamma? usually simple atan2 or just atan if in range.
+    // PDF says tan^-1, let's use atan2 for safety: atan2(y, x)
+    const num = d + r0 * Math.sin(phi);
+    const den = R - r0 * Math.cos(phi);
+    const gamma = Math.atan2(num, den);
+    
+    // r (magnitude) = sqrt( (d + r0 sin phi)^2 + (R - r0 cos phi)^2 )
+    const r_mag = Math.sqrt(Math.pow(num, 2) + Math.pow(den, 2));
+    
+    // Final coordinates (x, y) relative to cam
+    // x = r * cos(gamma + theta)
+    // y = r * sin(gamma + theta)
+    // NOTE: theta in PDF equations for x,y depends on CW/CCW conventions.
+    // "The coordinate system attached to the cam is designated as (x,y). The cam rotates... coordinate system rotates by angle theta"
+    // If sgn=1 (CW), we usually plot angle as negative theta? Or theta grows. 
+    // Eq 10.20 says x = r cos(gamma + theta). Let's use theta in radians.
+    // However, if we simply rotate the points, we assume theta increases.
+    
+    // Correction: If cam rotates CW, the contact point moves CCW relative to cam.
+    // Typically, profile is generated by plotting (r, gamma) at angle -theta (for CW). 
+    // PDF Eq 10.20 uses `gamma + theta`. Let's stick to the PDF exactly.
+    const thetaRad = rad(theta);
+    const angle = gamma + (sgn === 1 ? thetaRad : -thetaRad); // Wait, if CW, sgn=1.
+    
+    // Actually, let's look at Example 10.7 logic or similar.
+    // Usually for CW cam, we plot at (gamma + theta). 
+    // Let's assume the PDF formulas account for the rotation direction via the sgn in derivatives?
+    // "The variable sgn is used because... sgn=1 for CW". 
+    // Let's trust Eq 10.20: x = r cos(gamma + theta), y = r sin(gamma + theta).
+    // Note: if theta goes 0 -> 360, this draws the cam.
+    
+    x = r_mag * Math.cos(gamma + (rotation === 'CW' ? thetaRad : -thetaRad));
+    y = r_mag * Math.sin(gamma + (rotation === 'CW' ? thetaRad : -thetaRad));
 
-    // --- 3. Oscillating Roller Follower (Table 10.11) ---
-    else if (followerType === FollowerType.OSCILLATING_ROLLER) {
-      // phi_motion = s (radians? No, s is usually linear in generic functions, but here it represents angle in radians or degrees)
-      // We assume `s` from motionMath is in the same units as the output desired. 
-      // For oscillating, the user inputs "Lift" in degrees usually.
-      // Let's assume s is in degrees. Convert to radians for formulas.
-      const phi_motion_rad = rad(s);
-      const v_rad = rad(v); // omega_follower relative to omega_cam? v is ds/dtheta. So unit is rad/rad = dimensionless ratio.
-      const a_rad = rad(a);
-      
-      // Calculate initial angle phi0 (Eq 10.31)
-      // r1 = pivotDistance, r3 = followerLength, rb = baseRadius, r0 = followerRadius
-      // phi0 = acos( (r1^2 + r3^2 - (rb+r0)^2) / (2*r1*r3) )
-      const term = (r1*r1 + r3*r3 - Math.pow(rb+r0, 2)) / (2*r1*r3);
-      // Safety clamp
-      const clampedTerm = Math.max(-1, Math.min(1, term));
-      const phi0 = Math.acos(clampedTerm);
-      
-      const phi_total = phi0 + phi_motion_rad;
-      
-      // phi' = sgn * v_rad
-      const phi_prime = sgn * v_rad;
-      
-      // b = (phi' * r1) / (1 - phi')
-      const b = (phi_prime * r1) / (1 - phi_prime);
-      
-      // lambda = tan^-1 [ (r3 * sin(phi_total + phi0? NO phi_total IS phi+phi0)) / (r1 + b - r3*cos(phi_total)) ]
-      // Table 10.11: lambda = tan^-1 [ (r3 sin(phi + phi0)) / (r1 + b - r3 cos(phi + phi0)) ]
-      const numLam = r3 * Math.sin(phi_total);
-      const denLam = r1 + b - r3 * Math.cos(phi_total);
-      const lambda = Math.atan2(numLam, denLam);
-      
-      // gamma = tan^-1 [ (r3 sin(phi_total) - r0 sin(lambda)) / (r1 - r3 cos(phi_total) - r0 cos(lambda)) ]
-      const numGam = r3 * Math.sin(phi_total) - r0 * Math.sin(lambda);
-      const denGam = r1 - r3 * Math.cos(phi_total) - r0 * Math.cos(lambda);
-      const gamma = Math.atan2(numGam, denGam);
-      
-      // r = sqrt( ... )
-      const r_mag = Math.sqrt(Math.pow(numGam, 2) + Math.pow(denGam, 2));
-      
-      // x = r cos(gamma + theta)
-      // y = r sin(gamma + theta)
-      const thetaRad = rad(theta);
-      const rotTheta = rotation === 'CW' ? thetaRad : -thetaRad;
-      
-      x = r_mag * Math.cos(gamma + rotTheta);
-      y = r_mag * Math.sin(gamma + rotTheta);
-      
-      // Pressure angle
-      // psi = lambda - (pi/2 - phi_total - epsilon?) 
-      // Table 10.11 defines pressure angle via intermediate variables.
-      // Let's use: psi = lambda - (pi/2 - phi_total - epsilon??) No.
-      // Table 10.11 says pressure angle calculation is complex?
-      // "Pressure angle ... psi"
-      // Wait, Eq in Table 10.11:
-      // zeta = pi - (phi+phi0) - lambda
-      // BE = sqrt(r3^2 + r0^2 - 2 r3 r0 cos(zeta))
-      // psi = cos^-1 [ (r3^2 + BE^2 - r0^2) / (2 r3 BE) ]
-      // epsilon = pi/2 - phi_total + psi - lambda
-      // Let's just output 0 for now or implement partially if critical.
-      // It's mostly for analysis.
-      
-      pressureAngle = 0; // Placeholder
-      radiusOfCurvature = 0; // Placeholder
-    }
+    // Radius of curvature from the pitch curve traced by the roller center (knife tip, face center).
+    // B = (R, d) in the fixed frame, so B' = (v, 0) and B'' = (a, 0); the offset and the direction
+    // of rotation enter through getPathRadiusOfCurvature.
+    const rho_pitch = getPathRadiusOfCurvature([R, d], [v, 0], [a, 0], sgn);
+    radiusOfCurvature = rho_pitch - r0;
 
-    // --- 4. Oscillating Flat-Faced Follower (Table 10.12) ---
-    else if (followerType === FollowerType.OSCILLATING_FLAT) {
-      // s is angle in degrees
-      const phi_motion_rad = rad(s);
-      const v_rad = rad(v);
-      
-      // phi0 = tan^-1 (rb / DE) ? 
-      // No, Table 10.12: AE = (r1*rb)/(rb+d). DE = sqrt(AE^2 - rb^2). phi0 = tan^-1(rb/DE).
-      // Wait, if d=0, AE=r1, DE=sqrt(r1^2 - rb^2).
-      const AE = (r1 * rb) / (rb + d);
-      const DE = Math.sqrt(AE*AE - rb*rb);
-      const phi0 = Math.atan2(rb, DE);
-      
-      const phi_total = phi_motion_rad + phi0;
-      
-      // phi' = sgn * v_rad
-      const phi_prime = sgn * v_rad;
-      
-      // b = (phi' * r1) / (1 - phi')
-      const b = (phi_prime * r1) / (1 - phi_prime);
-      
-      // Coordinates
-      // CD = (r1 + b) cos(phi_total)
-      const CD = (r1 + b) * Math.cos(phi_total);
-      
-      // AG = r1 - d sin(phi_total) - CD cos(phi_total)
-      const AG = r1 - d * Math.sin(phi_total) - CD * Math.cos(phi_total);
-      
-      // DG = CD sin(phi_total) - d cos(phi_total)
-      const DG = CD * Math.sin(phi_total) - d * Math.cos(phi_total);
-      
-      // r = sqrt(AG^2 + DG^2)
-      const r_mag = Math.sqrt(AG*AG + DG*DG);
-      
-      // gamma = tan^-1(DG / AG)
-      const gamma = Math.atan2(DG, AG);
-      
-      const thetaRad = rad(theta);
-      const rotTheta = rotation === 'CW' ? thetaRad : -thetaRad;
-
-      x = r_mag * Math.cos(gamma + rotTheta);
-      y = r_mag * Math.sin(gamma + rotTheta);
-      
-      // Pressure angle psi = tan^-1 (d / CD)
-      pressureAngle = deg(Math.atan(d / CD));
-      radiusOfCurvature = 0; // Placeholder
-    }
+    const rotTheta = rotation === 'CW' ? thetaRad : -thetaRad;
+    pitch = [R * Math.cos(rotTheta) - d * Math.sin(rotTheta), R * Math.sin(rotTheta) + d * Math.cos(rotTheta)];
+    rhoPitch = rho_pitch;
+  }
+
+  // --- 2. Translating Flat-Faced Follower (Table 10.9) ---
+  // Generalized for a face inclined by delta from the perpendicular to the stem (delta = 0 is Table 10.9).
+  // The face line has unit normal (cos delta, sin delta) at distance p = rb + s cos(delta) from the cam
+  // center; in the cam frame its normal angle is psi = delta + sgn*theta, so dpsi/dtheta = sgn.
+  else if (followerType === FollowerType.TRANSLATING_FLAT) {
+    const delta = rad(params.faceAngle || 0);
+    const cosD = Math.cos(delta);
+    const sinD = Math.sin(delta);
+
+    const p = rb + s * cosD;
+    // dp/dpsi = p' / sgn = sgn * v cos(delta)
+    const p_psi = sgn * v * cosD;
+    
+    // Contact point = p n + p_psi t, with t = (-sin delta, cos delta) along the face.
+    // For delta = 0 this is Table 10.9: x = (rb + z) cos(theta) - z' sin(theta), y = (rb + z) sin(theta) + z' cos(theta)
+    const cx = p * cosD - p_psi * sinD;
+    const cy = p * sinD + p_psi * cosD;
+    const thetaRad = rotation === 'CW' ? rad(theta) : -rad(theta);
+
+    x = cx * Math.cos(thetaRad) - cy * Math.sin(thetaRad);
+    y = cx * Math.sin(thetaRad) + cy * Math.cos(thetaRad);
+    
+    // The contact force is normal to the face, so the pressure angle is the constant face tilt
+    pressureAngle = deg(delta);
+
+    // Contact travel along the face from the point where the stem axis (y = d) meets it.
+    // That point is p n + lambda t with p sin(delta) + lambda cos(delta) = d, so the travel is p_psi - lambda.
+    faceContact = p_psi + p * Math.tan(delta) - d / cosD;
+    
+    // Radius of curvature
+    // rho = p + d2p/dpsi2 = rb + (s + s'') cos(delta)
+    radiusOfCurvature = rb + (s + a) * cosD;
+  }
 
-    return {
-      ...pt,
-      x,
-      y,
+  // --- 3. Oscillating Roller Follower (Table 10.11) ---
+  // Also the oscillating spherical face, with r3 measured to the face center of curvature
+  else if (contactRadius !== null && followerType.includes('Oscillating')) {
+    // phi_motion = s (radians? No, s is usually linear in generic functions, but here it represents angle in radians or degrees)
+    // We assume `s` from motionMath is in the same units as the output desired. 
+    // For oscillating, the user inputs "Lift" in degrees usually.
+    // Let's assume s is in degrees. Convert to radians for formulas.
+    const phi_motion_rad = rad(s);
+    const v_rad = rad(v); // omega_follower relative to omega_cam? v is ds/dtheta. So unit is rad/rad = dimensionless ratio.
+    const a_rad = rad(a);
+    
+    // Calculate initial angle phi0 (Eq 10.31)
+    // r1 = pivotDistance, r3 = followerLength, rb = baseRadius, r0 = followerRadius
+    // phi0 = acos( (r1^2 + r3^2 - (rb+r0)^2) / (2*r1*r3) )
+    const term = (r1*r1 + r3*r3 - Math.pow(rb+r0, 2)) / (2*r1*r3);
+    // Safety clamp
+    const clampedTerm = Math.max(-1, Math.min(1, term));
+    const phi0 = Math.acos(clampedTerm);
+    
+    const phi_total = phi0 + phi_motion_rad;
+    
+    // phi' = sgn * v_rad
+    const phi_prime = sgn * v_rad;
+    
+    // b = (phi' * r1) / (1 - phi')
+    const b = (phi_prime * r1) / (1 - phi_prime);
+    
+    // lambda = tan^-1 [ (r3 * sin(phi_total + phi0? NO phi_total IS phi+phi0)) / (r1 + b - r3*cos(phi_total)) ]
+    // Table 10.11: lambda = tan^-1 [ (r3 sin(phi + phi0)) / (r1 + b - r3 cos(phi + phi0)) ]
+    const numLam = r3 * Math.sin(phi_total);
+    const denLam = r1 + b - r3 * Math.cos(phi_total);
+    const lambda = Math.atan2(numLam, denLam);
+    
+    // gamma = tan^-1 [ (r3 sin(phi_total) - r0 sin(lambda)) / (r1 - r3 cos(phi_total) - r0 cos(lambda)) ]
+    const numGam = r3 * Math.sin(phi_total) - r0 * Math.sin(lambda);
+    const denGam = r1 - r3 * Math.cos(phi_total) - r0 * Math.cos(lambda);
+    const gamma = Math.atan2(numGam, denGam);
+    
+    // r = sqrt( ... )
+    const r_mag = Math.sqrt(Math.pow(numGam, 2) + Math.pow(denGam, 2));
+    
+    // x = r cos(gamma + theta)
+    // y = r sin(gamma + theta)
+    const thetaRad = rad(theta);
+    const rotTheta = rotation === 'CW' ? thetaRad : -thetaRad;
+    
+    x = r_mag * Math.cos(gamma + rotTheta);
+    y = r_mag * Math.sin(gamma + rotTheta);
+    
+    // Pressure angle: between the common normal (angle lambda, through the instant center)
+    // and the path of the roller center, which is perpendicular to the arm (angle pi/2 - phi_total).
+    // Signed like the translating roller: positive while b > 0, i.e. rising for CW (sgn = 1).
+    pressureAngle = deg(wrapLineAngle(Math.PI / 2 - phi_total - lambda));
+
+    // Radius of curvature from the pitch curve traced by the roller center
+    // B = (r1 - r3 cos(phi_total), r3 sin(phi_total)) in the fixed frame, cam center at the origin.
+    // B' = B_phi v, B'' = B_phiphi v^2 + B_phi a (derivatives w.r.t. cam angle in radians)
+    const cosP = Math.cos(phi_total);
+    const sinP = Math.sin(phi_total);
+    const B: Vec2 = [r1 - r3 * cosP, r3 * sinP];
+    const B1: Vec2 = [r3 * sinP * v_rad, r3 * cosP * v_rad];
+    const B2: Vec2 = [
+      r3 * cosP * v_rad * v_rad + r3 * sinP * a_rad,
+      -r3 * sinP * v_rad * v_rad + r3 * cosP * a_rad
+    ];
+    const rho_pitch = getPathRadiusOfCurvature(B, B1, B2, sgn);
+    radiusOfCurvature = rho_pitch - r0;
+
+    pitch = [B[0] * Math.cos(rotTheta) - B[1] * Math.sin(rotTheta), B[0] * Math.sin(rotTheta) + B[1] * Math.cos(rotTheta)];
+    rhoPitch = rho_pitch;
+  }
+
+  // --- 4. Oscillating Flat-Faced Follower (Table 10.12) ---
+  else if (followerType === FollowerType.OSCILLATING_FLAT) {
+    // s is angle in degrees
+    const phi_motion_rad = rad(s);
+    const v_rad = rad(v);
+    const a_rad = rad(a);
+    
+    // phi0 = tan^-1 (rb / DE) ? 
+    // No, Table 10.12: AE = (r1*rb)/(rb+d). DE = sqrt(AE^2 - rb^2). phi0 = tan^-1(rb/DE).
+    // Wait, if d=0, AE=r1, DE=sqrt(r1^2 - rb^2).
+    const AE = (r1 * rb) / (rb + d);
+    const DE = Math.sqrt(AE*AE - rb*rb);
+    const phi0 = Math.atan2(rb, DE);
+    
+    const phi_total = phi_motion_rad + phi0;
+    
+    // phi' = sgn * v_rad
+    const phi_prime = sgn * v_rad;
+    
+    // b = (phi' * r1) / (1 - phi')
+    const b = (phi_prime * r1) / (1 - phi_prime);
+    
+    // Coordinates
+    // CD = (r1 + b) cos(phi_total)
+    const CD = (r1 + b) * Math.cos(phi_total);
+    
+    // AG = r1 - d sin(phi_total) - CD cos(phi_total)
+    const AG = r1 - d * Math.sin(phi_total) - CD * Math.cos(phi_total);
+    
+    // DG = CD sin(phi_total) - d cos(phi_total)
+    const DG = CD * Math.sin(phi_total) - d * Math.cos(phi_total);
+    
+    // r = sqrt(AG^2 + DG^2)
+    const r_mag = Math.sqrt(AG*AG + DG*DG);
+    
+    // gamma = tan^-1(DG / AG)
+    const gamma = Math.atan2(DG, AG);
+    
+    const thetaRad = rad(theta);
+    const rotTheta = rotation === 'CW' ? thetaRad : -thetaRad;
+
+    x = r_mag * Math.cos(gamma + rotTheta);
+    y = r_mag * Math.sin(gamma + rotTheta);
+    
+    // Pressure angle psi = tan^-1 (d / CD)
+    pressureAngle = deg(Math.atan(d / CD));
+    faceContact = CD;
+
+    // Radius of curvature from the envelope of face lines. In the cam frame the face has
+    // unit normal angle psi = pi/2 - phi_total + sgn*theta at distance p = r1 sin(phi_total) - d
+    // from the cam center (p = rb on the base circle), and rho = p + d2p/dpsi2.
+    const p = r1 * Math.sin(phi_total) - d;
+    const p1 = r1 * Math.cos(phi_total) * v_rad;
+    const p2 = -r1 * Math.sin(phi_total) * v_rad * v_rad + r1 * Math.cos(phi_total) * a_rad;
+    const psi1 = sgn - v_rad;
+    const psi2 = -a_rad;
+    radiusOfCurvature = p + (p2 * psi1 - p1 * psi2) / Math.pow(psi1, 3);
+  }
+
+  // --- 5. Barrel (Cylindrical) Cam with Axial Roller ---
+  // Developed onto the pitch cylinder (radius rb) the groove centerline is z(u) = s with
+  // u = sgn rb theta, the circumferential position in the cam frame. The roller moves along z,
+  // so the pressure angle is the slope of the centerline: tan(alpha) = dz/du = sgn v / rb.
+  // The walls are the centerline offset by r0 along its normal; x, y hold the lower wall
+  // (which lifts the follower) and secondary the upper wall.
+  let secondary: SecondaryContact | undefined;
+  if (followerType === FollowerType.BARREL_ROLLER) {
+    const u = sgn * rb * rad(theta);
+    const z1 = (sgn * v) / rb;
+    const z2 = a / (rb * rb);
+    const N = Math.sqrt(1 + z1 * z1);
+    const alpha = Math.atan(z1);
+
+    x = u + (r0 * z1) / N;
+    y = s - r0 / N;
+    pressureAngle = deg(alpha);
+
+    // Signed centerline curvature. The lower wall sees the centerline as a pitch curve of
+    // radius -1/kappa (convex toward its roller at a lift maximum), the upper wall +1/kappa.
+    // Straight (dwell) grooves get a large finite radius, as for other near-infinite radii.
+    const kappa = z2 / Math.pow(N, 3);
+    const wallRadius = (rhoPitch: number) => (Math.abs(kappa) < 1e-12 ? 1e12 : rhoPitch - r0);
+    radiusOfCurvature = wallRadius(-1 / kappa);
+    secondary = {
+      x: u - (r0 * z1) / N,
+      y: s + r0 / N,
+      pressureAngle,
+      radiusOfCurvature: wallRadius(1 / kappa)
+    };
+  }
+
+  // Groove: the outer wall is the pitch curve offset by r0 to the other side, along the same
+  // contact normal. Seen from its roller it is a cam whose pitch radius is -rho_pitch.
+  if (params.driveMode === 'groove' && followerType.includes('Roller') && pitch) {
+    secondary = {
+      x: 2 * pitch[0] - x,
+      y: 2 * pitch[1] - y,
       pressureAngle,
-      radiusOfCurvature
+      radiusOfCurvature: -rhoPitch - r0
     };
-  });
+  }
+
+  return {
+    ...pt,
+    x,
+    y,
+    pressureAngle,
+    radiusOfCurvature,
+    ...(faceContact !== undefined && { faceContact }),
+    ...(secondary && { secondary })
+  };
+};
+
+// Conjugate disc: the second follower is the first one mirrored across the follower axis
+// (translating: the opposite end of a yoke; oscillating: a second arm on the same rocker).
+// It makes the complementary motion sMin + sMax - s, which keeps the distance between the two
+// contacts constant, and its mirrored cam turns the other way.
+const addConjugateContact = (pt: SimulationPoint, params: CamParams, liftSum: number): SimulationPoint => {
+  const mirrored = calculateProfilePoint(
+    { ...pt, s: liftSum - pt.s, v: -pt.v, a: -pt.a, j: -pt.j },
+    { ...params, rotation: params.rotation === 'CW' ? 'CCW' : 'CW', driveMode: 'spring' }
+  );
+  const isTranslating = params.followerType.includes('Translating');
+  return {
+    ...pt,
+    secondary: {
+      x: isTranslating ? -mirrored.x : mirrored.x,
+      y: isTranslating ? mirrored.y : -mirrored.y,
+      pressureAngle: mirrored.pressureAngle,
+      radiusOfCurvature: mirrored.radiusOfCurvature
+    }
+  };
+};
+
+const getLiftSum = (points: SimulationPoint[]) =>
+  points.reduce((min, p) => Math.min(min, p.s), Infinity) + points.reduce((max, p) => Math.max(max, p.s), -Infinity);
+
+export interface FaceLengthRequirement {
+  positive: number; // Face needed on the positive side of the reference point (see SimulationPoint.faceContact)
+  negative: number; // Face needed on the other side
+}
+
+// Face length a flat-faced follower needs on each side of its reference point,
+// taken from the extreme contact positions over the cycle.
+export const getFaceLengthRequirement = (points: SimulationPoint[]): FaceLengthRequirement | null => {
+  const contacts = points.map(p => p.faceContact).filter((c): c is number => c !== undefined);
+  if (contacts.length === 0) return null;
+  return {
+    positive: Math.max(0, ...contacts),
+    negative: Math.max(0, ...contacts.map(c => -c))
+  };
+};
+
+export const calculateCamProfile = (points: SimulationPoint[], params: CamParams): SimulationPoint[] => {
+  const profile = points.map(pt => calculateProfilePoint(pt, params));
+  if (params.driveMode !== 'conjugate' || points.length === 0) return profile;
+  const liftSum = getLiftSum(points);
+  return profile.map(pt => addConjugateContact(pt, params, liftSum));
+};
+
+export interface ProfileProgram {
+  motion: MotionProgram;
+  params: CamParams;
+  // Exact profile point at any cam angle (degrees)
+  evaluateProfile: (theta: number) => SimulationPoint;
+}
+
+export const compileProfile = (motion: MotionProgram, params: CamParams): ProfileProgram => {
+  const liftSum = params.driveMode === 'conjugate' ? getLiftSum(sampleMotion(motion)) : 0;
+  return {
+    motion,
+    params,
+    evaluateProfile: (theta: number) => {
+      const { s, v, a, j } = motion.evaluateMotion(theta);
+      const pt = calculateProfilePoint({ theta, s, v, a, j, x: 0, y: 0, pressureAngle: 0, radiusOfCurvature: 0 }, params);
+      return params.driveMode === 'conjugate' ? addConjugateContact(pt, params, liftSum) : pt;
+    }
+  };
 };
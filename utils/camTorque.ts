@@ -0,0 +1,143 @@
+import { CamParams, FollowerType, SimulationPoint } from '../types';
+import { getFollowerPointVelocity } from './camMath';
+import { analyzeDynamics, DynamicsSettings, getLoadedContact, getNormalForce, getTravelScale } from './dynamics';
+import { getAngularVelocity } from './timeKinematics';
+
+type Vec2 = [number, number];
+
+export interface TorqueSettings {
+  contactFriction: number; // Sliding coefficient at the cam contact (rollers: rolling-resistance equivalent)
+  guideFriction: number; // Stem guide of translating followers, acting on the side thrust
+  speedFluctuation: number; // Target (omega_max - omega_min) / omega_mean for flywheel sizing
+}
+
+export const DEFAULT_TORQUE_SETTINGS: TorqueSettings = {
+  contactFriction: 0.01,
+  guideFriction: 0.1,
+  speedFluctuation: 0.02
+};
+
+export interface TorquePoint {
+  theta: number;
+  torque: number; // Driving torque on the camshaft, N·m (> 0: the shaft drives the cam)
+  lift: number; // Frictionless part from the follower force, F dx/dtheta
+  contactLoss: number; // Contact friction
+  guideLoss: number; // Guide friction from the side thrust
+  normalForce: number; // |F| / cos(pressure angle), N
+}
+
+export interface TorqueAnalysis {
+  points: TorquePoint[];
+  peak: { value: number; theta: number }; // Signed value with the largest magnitude
+  rms: number;
+  mean: number; // Equals the losses per radian over a full cycle
+  energyFluctuation: number; // Largest swing of the integral of (T - mean), J
+  flywheelInertia: number | null; // kg·m² for the target speed fluctuation; null at zero speed
+}
+
+const rotate = ([x, y]: Vec2, angle: number): Vec2 =>
+  [x * Math.cos(angle) - y * Math.sin(angle), x * Math.sin(angle) + y * Math.cos(angle)];
+
+// Unit tangent of a sampled contact curve from the nearest distinct neighbours
+const getTangent = (curve: Vec2[], i: number, closed: boolean): Vec2 => {
+  const n = curve.length;
+  const pick = (dir: number) => {
+    for (let k = 1; k < n; k++) {
+      const j = closed ? (i + dir * k + n) % n : Math.max(0, Math.min(n - 1, i + dir * k));
+      if (Math.hypot(curve[j][0] - curve[i][0], curve[j][1] - curve[i][1]) > 1e-9) return curve[j];
+    }
+    return curve[i];
+  };
+  const ahead = pick(1);
+  const behind = pick(-1);
+  const dx = ahead[0] - behind[0];
+  const dy = ahead[1] - behind[1];
+  const len = Math.hypot(dx, dy) || 1;
+  return [dx / len, dy / len];
+};
+
+// Camshaft torque by the power method, T omega = F x' + friction losses, with the follower force
+// from analyzeDynamics. Friction is first order: it does not feed back into the normal force.
+export const analyzeTorque = (
+  data: SimulationPoint[],
+  params: CamParams,
+  dynamicsSettings: DynamicsSettings,
+  settings: TorqueSettings,
+  rpm: number
+): TorqueAnalysis | null => {
+  const dynamics = analyzeDynamics(data, params, dynamicsSettings, rpm);
+  if (!dynamics) return null;
+
+  const sgn = params.rotation === 'CW' ? 1 : -1;
+  const scale = getTravelScale(params);
+  const isBarrel = params.followerType === FollowerType.BARREL_ROLLER;
+  const isOscillating = params.followerType.includes('Oscillating');
+
+  const primary: Vec2[] = data.map(p => [p.x, p.y]);
+  const secondary: Vec2[] = data.map(p => (p.secondary ? [p.secondary.x, p.secondary.y] : [p.x, p.y]));
+
+  const points = data.map((p, i) => {
+    const force = dynamics.points[i].force;
+    const contact = getLoadedContact(p, force);
+    const curve = contact === p ? primary : secondary;
+    const alpha = (contact.pressureAngle * Math.PI) / 180;
+    const normalForce = getNormalForce(force, contact.pressureAngle);
+
+    // Sliding speed per unit cam speed (mm/rad): tangential part of the cam surface velocity
+    // relative to the follower body. Rollers use the arm point at the contact for the roller center.
+    let tangent = getTangent(curve, i, !isBarrel);
+    let relative: Vec2;
+    if (isBarrel) {
+      // Developed frame: the cam surface slides past at -sgn Rp, the roller moves axially
+      relative = [-sgn * params.baseRadius, -p.v];
+    } else {
+      // Fixed frame B = Rot(-sgn theta) P; cam surface velocity sgn (B_y, -B_x)
+      const t = (-sgn * p.theta * Math.PI) / 180;
+      const B = rotate([contact.x, contact.y], t);
+      const body = getFollowerPointVelocity(params, p.v, B);
+      tangent = rotate(tangent, t);
+      relative = [sgn * B[1] - body[0], -sgn * B[0] - body[1]];
+    }
+    const slidingLever = Math.abs(tangent[0] * relative[0] + tangent[1] * relative[1]);
+
+    const lift = (force * p.v * scale) / 1000;
+    const contactLoss = (settings.contactFriction * normalForce * slidingLever) / 1000;
+    // Side thrust N sin(alpha) on the stem guide, sliding at the follower speed
+    const guideLoss = isOscillating
+      ? 0
+      : (settings.guideFriction * normalForce * Math.abs(Math.sin(alpha)) * Math.abs(p.v)) / 1000;
+
+    return { theta: p.theta, torque: lift + contactLoss + guideLoss, lift, contactLoss, guideLoss, normalForce };
+  });
+
+  // Trapezoidal integrals over the (non-uniform) samples, in radians
+  let integral = 0;
+  let integralSq = 0;
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    const dTheta = ((points[i].theta - points[i - 1].theta) * Math.PI) / 180;
+    integral += 0.5 * (points[i].torque + points[i - 1].torque) * dTheta;
+    integralSq += 0.5 * (points[i].torque ** 2 + points[i - 1].torque ** 2) * dTheta;
+    cumulative.push(integral);
+  }
+  const span = (((points[points.length - 1].theta - points[0].theta) * Math.PI) / 180) || 1;
+  const mean = integral / span;
+
+  // Kinetic energy the flywheel must absorb and release: E(theta) = integral of (T - mean)
+  const excess = cumulative.map((e, i) => e - (mean * (points[i].theta - points[0].theta) * Math.PI) / 180);
+  const energyFluctuation = Math.max(...excess) - Math.min(...excess);
+  const omega = getAngularVelocity(rpm);
+
+  return {
+    points,
+    peak: points.reduce((best, p) => (Math.abs(p.torque) > Math.abs(best.value) ? { value: p.torque, theta: p.theta } : best),
+      { value: 0, theta: 0 }),
+    rms: Math.sqrt(integralSq / span),
+    mean,
+    energyFluctuation,
+    // Delta E = I omega^2 Cs
+    flywheelInertia: omega > 0 && settings.speedFluctuation > 0
+      ? energyFluctuation / (settings.speedFluctuation * omega * omega)
+      : null
+  };
+};
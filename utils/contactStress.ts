@@ -0,0 +1,121 @@
+import { CamParams, SimulationPoint } from '../types';
+import { getContactRadius } from './camMath';
+import { analyzeDynamics, DynamicsSettings, getLoadedContact, getNormalForce } from './dynamics';
+
+export interface Material {
+  id: string;
+  name: string;
+  elasticModulus: number; // MPa
+  poissonRatio: number;
+  allowableStress: number; // Allowable Hertz contact stress (surface fatigue), MPa
+}
+
+// Typical values; allowable stresses are for long life with good lubrication
+export const MATERIALS: Material[] = [
+  { id: 'steel-1045', name: 'Steel 1045, normalized', elasticModulus: 206000, poissonRatio: 0.29, allowableStress: 800 },
+  { id: 'steel-4140', name: 'Steel 4140, Q&T', elasticModulus: 206000, poissonRatio: 0.29, allowableStress: 1200 },
+  { id: 'steel-8620', name: 'Steel 8620, case hardened', elasticModulus: 206000, poissonRatio: 0.29, allowableStress: 1550 },
+  { id: 'steel-52100', name: 'Bearing steel 52100', elasticModulus: 208000, poissonRatio: 0.3, allowableStress: 2000 },
+  { id: 'gray-iron', name: 'Gray cast iron', elasticModulus: 110000, poissonRatio: 0.26, allowableStress: 550 },
+  { id: 'ductile-iron', name: 'Ductile iron', elasticModulus: 169000, poissonRatio: 0.28, allowableStress: 750 },
+  { id: 'bronze', name: 'Phosphor bronze', elasticModulus: 110000, poissonRatio: 0.34, allowableStress: 350 },
+  { id: 'nylon', name: 'Nylon 6/6', elasticModulus: 2800, poissonRatio: 0.39, allowableStress: 40 },
+  { id: 'acetal', name: 'Acetal (POM)', elasticModulus: 3100, poissonRatio: 0.35, allowableStress: 55 }
+];
+
+export const getMaterial = (id: string): Material => MATERIALS.find(m => m.id === id) ?? MATERIALS[0];
+
+export interface ContactStressSettings {
+  camMaterial: string;
+  followerMaterial: string;
+  faceWidth: number; // Length of the contact line, mm (not used for spherical faces)
+}
+
+export const DEFAULT_CONTACT_STRESS_SETTINGS: ContactStressSettings = {
+  camMaterial: 'steel-4140',
+  followerMaterial: 'steel-52100',
+  faceWidth: 10
+};
+
+export interface StressPoint {
+  theta: number;
+  stress: number | null; // Peak Hertz pressure, MPa; null where the surfaces conform (no line contact)
+  onSecondary: boolean; // Load carried by the outer groove wall / second disc
+}
+
+export interface StressAnalysis {
+  points: StressPoint[];
+  max: { value: number; theta: number };
+  allowableStress: number; // Weaker of the two surfaces
+  safetyFactor: number; // allowableStress / max stress
+  pointContact: boolean; // Spherical face: elliptical contact, independent of the face width
+}
+
+// Hertz point contact (Hamrock-Brewe approximation) for principal curvature sums kx, ky (1/mm),
+// load W (N) and E' = 2 / compliance:
+//   alpha = Ry / Rx >= 1,  k = alpha^(2/pi),  E = 1 + (pi/2 - 1) / alpha,  R = 1 / (kx + ky)
+//   a = (6 k^2 E W R / (pi E'))^(1/3),  b = (6 E W R / (pi k E'))^(1/3),  p_max = 3 W / (2 pi a b)
+const getPointContactStress = (kx: number, ky: number, load: number, compliance: number) => {
+  const ratio = Math.max(kx, ky) / Math.min(kx, ky);
+  const k = Math.pow(ratio, 2 / Math.PI);
+  const ellipticE = 1 + (Math.PI / 2 - 1) / ratio;
+  const base = (6 * ellipticE * load * compliance) / (2 * Math.PI * (kx + ky));
+  const a = Math.cbrt(k * k * base);
+  const b = Math.cbrt(base / k);
+  return (3 * load) / (2 * Math.PI * a * b);
+};
+
+// Hertz line contact between two cylinders:
+//   p_max = sqrt( (N / L) (1/R1 + 1/R2) / (pi ((1 - v1^2)/E1 + (1 - v2^2)/E2)) )
+// The cam radius is signed (concave < 0) and a flat face has 1/R2 = 0. A spherical face touches the
+// cam in a point: curvature sums 1/rho + 1/Rs in the plane of the cam and 1/Rs across the face.
+// A knife edge has no finite contact stress, so it returns null.
+export const analyzeContactStress = (
+  data: SimulationPoint[],
+  params: CamParams,
+  dynamicsSettings: DynamicsSettings,
+  settings: ContactStressSettings,
+  rpm: number
+): StressAnalysis | null => {
+  const r0 = getContactRadius(params);
+  const dynamics = analyzeDynamics(data, params, dynamicsSettings, rpm);
+  const pointContact = params.followerType.includes('Spherical');
+  if (!dynamics || r0 === 0 || (!pointContact && settings.faceWidth <= 0)) return null;
+
+  const cam = getMaterial(settings.camMaterial);
+  const follower = getMaterial(settings.followerMaterial);
+  const compliance =
+    (1 - cam.poissonRatio ** 2) / cam.elasticModulus + (1 - follower.poissonRatio ** 2) / follower.elasticModulus;
+  const followerCurvature = r0 === null ? 0 : 1 / r0;
+
+  const points = data.map((p, i) => {
+    const force = dynamics.points[i].force;
+    const contact = getLoadedContact(p, force);
+    const curvature = 1 / contact.radiusOfCurvature + followerCurvature;
+    const normalForce = getNormalForce(force, contact.pressureAngle);
+    let stress: number | null = null;
+    if (curvature > 0 && pointContact) {
+      stress = normalForce > 0 ? getPointContactStress(curvature, followerCurvature, normalForce, compliance) : 0;
+    } else if (curvature > 0) {
+      stress = Math.sqrt((normalForce / settings.faceWidth) * curvature / (Math.PI * compliance));
+    }
+    return {
+      theta: p.theta,
+      stress,
+      onSecondary: contact !== p
+    };
+  });
+
+  const max = points.reduce(
+    (best, p) => (p.stress !== null && p.stress > best.value ? { value: p.stress, theta: p.theta } : best),
+    { value: 0, theta: 0 }
+  );
+  const allowableStress = Math.min(cam.allowableStress, follower.allowableStress);
+  return {
+    points,
+    max,
+    allowableStress,
+    safetyFactor: max.value > 0 ? allowableStress / max.value : Infinity,
+    pointContact
+  };
+};
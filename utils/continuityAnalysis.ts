@@ -0,0 +1,73 @@
+import { BoundaryContinuity, ContinuitySeverity, KinematicJumps, MotionSegment, MotionType } from '../types';
+import { processSegments, evaluateSegment, ProcessedSegment } from './motionMath';
+
+const ORDERS: (keyof KinematicJumps)[] = ['s', 'v', 'a', 'j'];
+
+// A jump in s, v or a makes a higher derivative infinite (fundamental law of cam design),
+// a jump in j only produces a finite step in jerk.
+const CONSEQUENCES: Record<keyof KinematicJumps, string> = {
+  s: 'Displacement jump: follower cannot follow',
+  v: 'Velocity jump: infinite acceleration',
+  a: 'Acceleration jump: infinite jerk',
+  j: 'Jerk jump: finite jerk step'
+};
+
+// Relative tolerance so that large jerk values do not fail on rounding noise
+export const isJump = (delta: number, left: number, right: number) =>
+  Math.abs(delta) > 1e-6 * Math.max(1, Math.abs(left), Math.abs(right));
+
+export const analyzeContinuity = (segments: MotionSegment[]): BoundaryContinuity[] => {
+  // Zero-length segments do not form a junction of their own
+  const labelled: { segment: ProcessedSegment; label: string }[] = processSegments(segments)
+    .map((segment, idx) => ({ segment, label: `#${idx + 1} ${segment.type}` }))
+    .filter(({ segment }) => segment.durationVal > 1e-9);
+  if (labelled.length === 0) return [];
+
+  // An incomplete cycle holds the final lift until 360°, which behaves like a dwell
+  const last = labelled[labelled.length - 1].segment;
+  if (last.endAngle < 360 - 1e-6) {
+    labelled.push({
+      segment: {
+        id: 'hold', type: MotionType.DWELL, duration: 360 - last.endAngle, deltaLift: 0,
+        durationVal: 360 - last.endAngle, deltaLiftVal: 0, shape: null,
+        startAngle: last.endAngle, endAngle: 360, startLift: last.endLift, endLift: last.endLift
+      },
+      label: 'Hold to 360°'
+    });
+  }
+
+  const reports: BoundaryContinuity[] = [];
+  for (let i = 0; i < labelled.length; i++) {
+    const from = labelled[i];
+    const isWrap = i === labelled.length - 1;
+    const to = labelled[isWrap ? 0 : i + 1];
+
+    const left = evaluateSegment(from.segment, 1);
+    const right = evaluateSegment(to.segment, 0);
+
+    const jumps: KinematicJumps = { s: 0, v: 0, a: 0, j: 0 };
+    let severity: ContinuitySeverity = 'pass';
+    let message = 'Continuous up to jerk';
+    for (let k = ORDERS.length - 1; k >= 0; k--) {
+      const key = ORDERS[k];
+      const delta = right[k] - left[k];
+      jumps[key] = isJump(delta, left[k], right[k]) ? delta : 0;
+      if (jumps[key] !== 0) {
+        // Report the lowest-order jump, it dominates the behaviour at the junction
+        severity = key === 'j' ? 'warning' : 'fail';
+        message = CONSEQUENCES[key];
+      }
+    }
+
+    reports.push({
+      theta: isWrap ? 0 : from.segment.endAngle,
+      fromLabel: from.label,
+      toLabel: to.label,
+      isWrap,
+      jumps,
+      severity,
+      message
+    });
+  }
+  return reports;
+};
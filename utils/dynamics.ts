@@ -0,0 +1,112 @@
+import { CamParams, FollowerType, SimulationPoint } from '../types';
+import { getAngleRanges } from './angleRanges';
+import { getAngularVelocity } from './timeKinematics';
+
+export interface DynamicsSettings {
+  mass: number; // Effective follower mass in kg (oscillating: reduced to the arm tip)
+  springRate: number; // N/mm
+  preload: number; // Spring force at the lowest follower position, N
+  damping: number; // Viscous damping, N·s/m
+  externalLoad: number; // Constant working load pressing the follower onto the cam, N
+  safetyFactor: number; // Applied to the inertia force when sizing the spring
+}
+
+export const DEFAULT_DYNAMICS_SETTINGS: DynamicsSettings = {
+  mass: 0.5,
+  springRate: 5,
+  preload: 50,
+  damping: 10,
+  externalLoad: 0,
+  safetyFactor: 1.2
+};
+
+export interface DynamicsPoint {
+  theta: number;
+  force: number; // Contact force along the follower motion, N (> 0 keeps the follower on the cam)
+  inertia: number; // m x''
+  spring: number; // k x + F0
+  damping: number; // c x'
+}
+
+export interface DynamicsAnalysis {
+  points: DynamicsPoint[];
+  minForce: { value: number; theta: number };
+  maxForce: { value: number; theta: number };
+  // Spring drive: follower jump. Positive drive: the load moves to the other flank / second disc.
+  separations: { startAngle: number; endAngle: number }[];
+  positiveDrive: boolean;
+  minPreload: number; // At the current spring rate, N
+  minSpringRate: number | null; // At the current preload, N/mm; null if preload alone is short at the lowest position
+}
+
+// Follower travel in mm per displacement unit. Oscillating lift (degrees) is turned into
+// arc length at the arm tip so mass, rate and preload keep their linear meaning.
+export const getTravelScale = (params: CamParams) =>
+  params.followerType.includes('Oscillating') ? (params.followerLength * Math.PI) / 180 : 1;
+
+// Groove, conjugate and barrel cams hold the follower on both sides, so there is no return spring
+export const isPositiveDrive = (params: CamParams) =>
+  params.driveMode !== 'spring' || params.followerType === FollowerType.BARREL_ROLLER;
+
+// Surface carrying the load: a positive-drive cam takes negative force on its second surface
+export const getLoadedContact = (pt: SimulationPoint, force: number) =>
+  force < 0 && pt.secondary ? pt.secondary : pt;
+
+// Normal force at the contact from the force along the follower motion
+export const getNormalForce = (force: number, pressureAngle: number) =>
+  Math.abs(force) / Math.max(Math.cos((pressureAngle * Math.PI) / 180), 1e-3);
+
+// Contact force over the cycle: F = m x'' + c x' + k x + F0 + F_ext, with
+// x' = omega v, x'' = omega^2 a (SimulationPoint derivatives are per radian of cam angle).
+// Positive-drive cams have no spring, so k x + F0 is left out for them.
+export const analyzeDynamics = (
+  data: SimulationPoint[],
+  params: CamParams,
+  settings: DynamicsSettings,
+  rpm: number
+): DynamicsAnalysis | null => {
+  if (data.length === 0) return null;
+  const { mass, springRate, preload, damping, externalLoad, safetyFactor } = settings;
+  const omega = getAngularVelocity(rpm);
+  const scale = getTravelScale(params);
+  const sMin = Math.min(...data.map(p => p.s));
+  const positiveDrive = isPositiveDrive(params);
+
+  // Spring compression (mm) and the force the spring must at least supply at each sample
+  const samples = data.map(p => {
+    const x = (p.s - sMin) * scale;
+    const inertia = (mass * p.a * scale * omega * omega) / 1000;
+    const damper = (damping * p.v * scale * omega) / 1000;
+    return { theta: p.theta, x, inertia, damper, required: -(safetyFactor * inertia + damper + externalLoad) };
+  });
+
+  const points = samples.map(({ theta, x, inertia, damper }) => {
+    const spring = positiveDrive ? 0 : springRate * x + preload;
+    return { theta, force: inertia + damper + spring + externalLoad, inertia, spring, damping: damper };
+  });
+
+  const separations = getAngleRanges(points, p => p.force <= 0);
+
+  // Smallest preload with k x + F0 >= required everywhere, and smallest rate for the current preload.
+  // Where x = 0 only the preload can help.
+  const minPreload = Math.max(0, ...samples.map(p => p.required - springRate * p.x));
+  const EPS = 1e-6;
+  const atBase = samples.filter(p => p.x <= EPS);
+  const minSpringRate = atBase.some(p => p.required > preload)
+    ? null
+    : Math.max(0, ...samples.filter(p => p.x > EPS).map(p => (p.required - preload) / p.x));
+
+  const extreme = (pick: (a: number, b: number) => boolean) =>
+    points.reduce((best, p) => (pick(p.force, best.value) ? { value: p.force, theta: p.theta } : best),
+      { value: points[0].force, theta: points[0].theta });
+
+  return {
+    points,
+    minForce: extreme((a, b) => a < b),
+    maxForce: extreme((a, b) => a > b),
+    separations,
+    positiveDrive,
+    minPreload,
+    minSpringRate
+  };
+};
@@ -0,0 +1,103 @@
+import { CamParams, FeasibilityKind, FeasibilityViolation, SimulationPoint } from '../types';
+import { findAngleRuns } from './angleRanges';
+import { calculateProfilePoint, getContactRadius } from './camMath';
+
+// Parameter that sets the contact radius of roller and spherical-faced followers
+const getContactRadiusField = (params: CamParams): 'followerRadius' | 'faceRadius' | null => {
+  if (params.followerType.includes('Roller')) return 'followerRadius';
+  if (params.followerType.includes('Spherical')) return 'faceRadius';
+  return null;
+};
+
+// Roller / spherical face: the pitch curve (rho_cam + r0) is convex but tighter than r0, so the
+// offset profile loops back on itself. Concave pitch arcs are always generable, and a knife
+// edge (r0 = 0) follows any pitch curve.
+// Flat face: the envelope of face lines reverses direction where its radius is negative.
+export const getViolationKind = (pt: Pick<SimulationPoint, 'radiusOfCurvature'>, params: CamParams): FeasibilityKind | null => {
+  const r0 = getContactRadius(params);
+  if (r0 !== null) {
+    const rhoPitch = pt.radiusOfCurvature + r0;
+    return rhoPitch > 0 && rhoPitch < r0 ? 'undercut' : null;
+  }
+  return pt.radiusOfCurvature < 0 ? 'cusp' : null;
+};
+
+const isFeasible = (points: SimulationPoint[], params: CamParams) =>
+  points.every(pt => getViolationKind(calculateProfilePoint(pt, params), params) === null);
+
+// Bisection between an infeasible and a feasible value of a monotone parameter
+const bisect = (isOk: (value: number) => boolean, bad: number, good: number, tolerance = 0.01) => {
+  let lo = bad;
+  let hi = good;
+  while (Math.abs(hi - lo) > tolerance) {
+    const mid = 0.5 * (lo + hi);
+    if (isOk(mid)) hi = mid; else lo = mid;
+  }
+  return hi;
+};
+
+// Smallest base radius for which the given motion samples are free of undercut and cusps.
+// The search doubles the radius up to 64x; null if that does not help (e.g. oscillating geometry limits).
+export const findMinBaseRadius = (points: SimulationPoint[], params: CamParams): number | null => {
+  const isOk = (baseRadius: number) => isFeasible(points, { ...params, baseRadius });
+  if (isOk(params.baseRadius)) return params.baseRadius;
+  let good = params.baseRadius;
+  for (let k = 0; k < 6; k++) {
+    good *= 2;
+    if (isOk(good)) return bisect(isOk, good / 2, good);
+  }
+  return null;
+};
+
+// Largest roller / face radius for which the samples are free of undercut (a knife edge never undercuts)
+export const findMaxFollowerRadius = (points: SimulationPoint[], params: CamParams): number | null => {
+  const field = getContactRadiusField(params);
+  if (!field) return null;
+  const isOk = (radius: number) => isFeasible(points, { ...params, [field]: radius });
+  if (isOk(params[field])) return params[field];
+  return isOk(0) ? bisect(isOk, params[field], 0) : null;
+};
+
+// Radii blow up where the face turns with the cam (instant center at infinity)
+const formatRadius = (r: number) => (Math.abs(r) > 1e6 ? (r < 0 ? '-∞' : '∞') : r.toFixed(2));
+
+// Groups consecutive violating samples into angle ranges (merged across 360° -> 0°)
+// and works out the geometry change that clears each range.
+export const analyzeFeasibility = (data: SimulationPoint[], params: CamParams): FeasibilityViolation[] => {
+  const runs = findAngleRuns(data, pt => getViolationKind(pt, params));
+
+  const r0 = getContactRadius(params) ?? 0;
+  const radiusName = params.followerType.includes('Spherical') ? 'face radius' : 'roller radius';
+  return runs.map(({ kind, points: run }) => {
+    const radiusOf = (pt: SimulationPoint) =>
+      kind === 'undercut' ? pt.radiusOfCurvature + r0 : pt.radiusOfCurvature;
+    const worst = run.reduce((w, pt) => (radiusOf(pt) < radiusOf(w) ? pt : w), run[0]);
+    const minBaseRadius = findMinBaseRadius(run, params);
+    const maxFollowerRadius = findMaxFollowerRadius(run, params);
+
+    const fixes = [
+      minBaseRadius !== null && `base radius ≥ ${(Math.ceil(minBaseRadius * 10) / 10).toFixed(1)}`,
+      maxFollowerRadius !== null && `${radiusName} ≤ ${(Math.floor(maxFollowerRadius * 10) / 10).toFixed(1)}`
+    ].filter(Boolean);
+    const problem = kind === 'undercut'
+      ? `Pitch radius ${formatRadius(radiusOf(worst))} < ${radiusName} ${r0}`
+      : `Profile radius ${formatRadius(radiusOf(worst))} < 0`;
+
+    return {
+      kind,
+      startAngle: run[0].theta,
+      endAngle: run[run.length - 1].theta,
+      worstAngle: worst.theta,
+      worstRadius: radiusOf(worst),
+      minBaseRadius,
+      maxFollowerRadius,
+      message: fixes.length > 0 ? `${problem}. Fix with ${fixes.join(' or ')}.` : `${problem}. No geometry change found.`
+    };
+  });
+};
+
+// True if a cam angle lies in a violation range (ranges may wrap through 0°)
+export const isInViolation = (theta: number, v: FeasibilityViolation) =>
+  v.startAngle <= v.endAngle
+    ? theta >= v.startAngle && theta <= v.endAngle
+    : theta >= v.startAngle || theta <= v.endAngle;
@@ -0,0 +1,300 @@
+import { CamParams, FollowerType, SimulationPoint } from '../types';
+import { findAngleRuns } from './angleRanges';
+import { getViolationKind } from './feasibility';
+
+// Outside: the cutter runs around the cam (external profile).
+// Inside: the cutter runs within the contour (profile cut as a pocket or female template).
+export type CutSide = 'outside' | 'inside';
+
+export interface CutterSettings {
+  cutterRadius: number;
+  side: CutSide;
+  feedRate: number; // mm/min
+  plungeRate: number; // mm/min
+  depth: number; // Cutting depth below the top face (Z = 0)
+  safeZ: number; // Rapid clearance height
+  leadIn: number; // Length of the approach / retreat move normal to the path
+  useArcs: boolean; // Fit G02/G03 arcs where the path allows, otherwise G01 only
+  tolerance: number; // Allowed deviation of a fitted line or arc from the tool path
+}
+
+export const DEFAULT_CUTTER_SETTINGS: CutterSettings = {
+  cutterRadius: 5,
+  side: 'outside',
+  feedRate: 300,
+  plungeRate: 100,
+  depth: 10,
+  safeZ: 5,
+  leadIn: 5,
+  useArcs: true,
+  tolerance: 0.005
+};
+
+export interface ToolpathPoint {
+  x: number; // Cutter center in the cam frame
+  y: number;
+  theta: number; // Cam angle of the profile point it was offset from
+}
+
+export type ToolpathWarningKind = 'gouge' | 'undercut' | 'cusp';
+
+export interface ToolpathWarning {
+  kind: ToolpathWarningKind;
+  startAngle: number; // degrees; startAngle > endAngle when the range wraps through 0°
+  endAngle: number;
+  message: string;
+}
+
+export interface Toolpath {
+  points: ToolpathPoint[]; // Closed path, trimmed of self-intersection loops
+  start: ToolpathPoint; // End of the lead-in (first path point)
+  leadStart: { x: number; y: number }; // Start of the lead-in, clear of the cam material
+  cutterRadius: number;
+  loopsRemoved: number;
+  warnings: ToolpathWarning[];
+}
+
+type Vec2 = { x: number; y: number };
+
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx;
+
+// Shoelace formula; positive for a counter-clockwise loop
+const signedArea = (pts: Vec2[]) =>
+  pts.reduce((sum, p, i) => {
+    const q = pts[(i + 1) % pts.length];
+    return sum + cross(p.x, p.y, q.x, q.y);
+  }, 0) / 2;
+
+// Proper crossing of segments ab and cd (parameter along ab), or null
+const intersectSegments = (a: Vec2, b: Vec2, c: Vec2, d: Vec2): number | null => {
+  const rx = b.x - a.x, ry = b.y - a.y;
+  const sx = d.x - c.x, sy = d.y - c.y;
+  const den = cross(rx, ry, sx, sy);
+  if (Math.abs(den) < 1e-12) return null;
+  const t = cross(c.x - a.x, c.y - a.y, sx, sy) / den;
+  const u = cross(c.x - a.x, c.y - a.y, rx, ry) / den;
+  return t > 0 && t < 1 && u > 0 && u < 1 ? t : null;
+};
+
+// Concave gouges and profile loops make the offset curve cross itself. At each crossing the
+// closed path splits into two loops; the smaller one is the swallowtail the cutter must skip.
+const removeLoops = (input: ToolpathPoint[]) => {
+  let path = input;
+  let removed = 0;
+  let i = 0;
+  while (i < path.length) {
+    const n = path.length;
+    const a = path[i];
+    const b = path[(i + 1) % n];
+    let changed = false;
+    for (let j = i + 2; j < n && !changed; j++) {
+      if (i === 0 && j === n - 1) continue; // Adjacent through the closing segment
+      const c = path[j];
+      const d = path[(j + 1) % n];
+      if (Math.max(a.x, b.x) < Math.min(c.x, d.x) || Math.max(c.x, d.x) < Math.min(a.x, b.x)) continue;
+      if (Math.max(a.y, b.y) < Math.min(c.y, d.y) || Math.max(c.y, d.y) < Math.min(a.y, b.y)) continue;
+      const t = intersectSegments(a, b, c, d);
+      if (t === null) continue;
+
+      const hit: ToolpathPoint = { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y), theta: a.theta };
+      const loop = path.slice(i + 1, j + 1);
+      const rest = [...path.slice(j + 1), ...path.slice(0, i + 1)];
+      path = Math.abs(signedArea([hit, ...loop])) > Math.abs(signedArea([hit, ...rest]))
+        ? [hit, ...loop]
+        : [...path.slice(0, i + 1), hit, ...path.slice(j + 1)];
+      removed++;
+      changed = true;
+    }
+    i = changed ? Math.max(0, i - 1) : i + 1;
+  }
+  return { path, removed };
+};
+
+// Offsets the synthesized cam profile by the cutter radius. Where the cutter is larger than a
+// concave arc (from the cutter's side) it cannot reach the bottom and the offset loops; the loop
+// is trimmed and the gouge reported. Undercut / cusp ranges of the profile itself also loop
+// and are reported separately, since the cut cam then differs from the design regardless of cutter.
+export const computeToolpath = (profile: SimulationPoint[], params: CamParams, settings: CutterSettings): Toolpath | null => {
+  // Barrel grooves are cut on a rotary axis, not as a closed 2-axis contour
+  if (params.followerType === FollowerType.BARREL_ROLLER) return null;
+  // Drop the repeated 360° sample and any zero-length steps
+  const pts = profile.filter((p, i) => {
+    const q = profile[(i + 1) % profile.length];
+    return Math.hypot(q.x - p.x, q.y - p.y) > 1e-9;
+  });
+  if (pts.length < 3) return null;
+
+  const rc = Math.max(0, settings.cutterRadius);
+  // Outward normal is the tangent turned right on a counter-clockwise loop
+  const orientation = Math.sign(signedArea(pts)) || 1;
+  const sideSign = settings.side === 'outside' ? 1 : -1;
+
+  const normalAt = (i: number) => {
+    const prev = pts[(i - 1 + pts.length) % pts.length];
+    const next = pts[(i + 1) % pts.length];
+    const tx = next.x - prev.x;
+    const ty = next.y - prev.y;
+    const len = Math.hypot(tx, ty) || 1;
+    return { x: (orientation * ty) / len, y: (-orientation * tx) / len };
+  };
+
+  const offset: ToolpathPoint[] = pts.map((p, i) => {
+    const n = normalAt(i);
+    return { x: p.x + sideSign * rc * n.x, y: p.y + sideSign * rc * n.y, theta: p.theta };
+  });
+  const { path, removed } = removeLoops(offset);
+
+  // Concave from the cutter's side: negative profile radius outside, positive inside
+  const warnings: ToolpathWarning[] = findAngleRuns(pts, (pt): ToolpathWarningKind | null => {
+    const defect = getViolationKind(pt, params);
+    if (defect) return defect;
+    const rho = sideSign * pt.radiusOfCurvature;
+    return rho < 0 && -rho < rc ? 'gouge' : null;
+  }).map(({ kind, points }) => {
+    const startAngle = points[0].theta;
+    const endAngle = points[points.length - 1].theta;
+    const tightest = points.reduce((min, pt) => Math.min(min, Math.abs(pt.radiusOfCurvature)), Infinity);
+    const range = `${startAngle.toFixed(1)}°–${endAngle.toFixed(1)}°`;
+    const message = kind === 'gouge'
+      ? `${range}: profile radius ${tightest.toFixed(2)}, concave toward the cutter, is smaller than the cutter radius ${rc}. The cutter leaves material here; use a cutter of radius ≤ ${(Math.floor(tightest * 100) / 100).toFixed(2)}.`
+      : `${range}: the profile ${kind === 'undercut' ? 'is undercut' : 'has a cusp'}, so the cut cam will not give the designed motion.`;
+    return { kind, startAngle, endAngle, message };
+  });
+
+  const start = path[0];
+  const startIndex = pts.findIndex(p => p.theta === start.theta);
+  const n = normalAt(Math.max(0, startIndex));
+  const lead = Math.max(0, settings.leadIn);
+  return {
+    points: path,
+    start,
+    leadStart: { x: start.x + sideSign * lead * n.x, y: start.y + sideSign * lead * n.y },
+    cutterRadius: rc,
+    loopsRemoved: removed,
+    warnings
+  };
+};
+
+type Move =
+  | { type: 'line'; to: ToolpathPoint }
+  | { type: 'arc'; to: ToolpathPoint; cx: number; cy: number; clockwise: boolean };
+
+const distanceToChord = (p: Vec2, a: Vec2, b: Vec2) => {
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  if (len < 1e-12) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(cross(b.x - a.x, b.y - a.y, p.x - a.x, p.y - a.y)) / len;
+};
+
+const fitsLine = (pts: ToolpathPoint[], i: number, j: number, tolerance: number) => {
+  for (let k = i + 1; k < j; k++) {
+    if (distanceToChord(pts[k], pts[i], pts[j]) > tolerance) return false;
+  }
+  return true;
+};
+
+// Circle through the first, middle and last point; every point in between must lie within
+// tolerance of it and the path must keep turning the same way around the center.
+const fitArc = (pts: ToolpathPoint[], i: number, j: number, tolerance: number) => {
+  const a = pts[i];
+  const m = pts[Math.floor((i + j) / 2)];
+  const b = pts[j];
+  const den = 2 * cross(m.x - a.x, m.y - a.y, b.x - a.x, b.y - a.y);
+  if (Math.abs(den) < 1e-12) return null;
+  const a2 = a.x * a.x + a.y * a.y;
+  const m2 = m.x * m.x + m.y * m.y;
+  const b2 = b.x * b.x + b.y * b.y;
+  const cx = (a2 * (m.y - b.y) + m2 * (b.y - a.y) + b2 * (a.y - m.y)) / den;
+  const cy = (a2 * (b.x - m.x) + m2 * (a.x - b.x) + b2 * (m.x - a.x)) / den;
+  const radius = Math.hypot(a.x - cx, a.y - cy);
+  const direction = Math.sign(den);
+  for (let k = i + 1; k <= j; k++) {
+    const p = pts[k - 1];
+    const q = pts[k];
+    if (Math.abs(Math.hypot(q.x - cx, q.y - cy) - radius) > tolerance) return null;
+    if (Math.sign(cross(p.x - cx, p.y - cy, q.x - cx, q.y - cy)) !== direction) return null;
+    // Chord sagitta of each step must stay within tolerance as well
+    const half = Math.hypot(q.x - p.x, q.y - p.y) / 2;
+    if (radius - Math.sqrt(Math.max(0, radius * radius - half * half)) > tolerance) return null;
+  }
+  return { cx, cy, clockwise: direction < 0 };
+};
+
+// Greedy segmentation: from each point take the longest run that fits one line, or one arc
+// if that reaches further.
+const fitMoves = (path: ToolpathPoint[], settings: CutterSettings): Move[] => {
+  const pts = [...path, path[0]];
+  const tolerance = Math.max(1e-6, settings.tolerance);
+  const moves: Move[] = [];
+  let i = 0;
+  while (i < pts.length - 1) {
+    let lineEnd = i + 1;
+    while (lineEnd + 1 < pts.length && fitsLine(pts, i, lineEnd + 1, tolerance)) lineEnd++;
+
+    let arc: { end: number; cx: number; cy: number; clockwise: boolean } | null = null;
+    if (settings.useArcs) {
+      for (let j = i + 2; j < pts.length; j++) {
+        const fit = fitArc(pts, i, j, tolerance);
+        if (!fit) break;
+        arc = { end: j, ...fit };
+      }
+    }
+
+    if (arc && arc.end > lineEnd) {
+      moves.push({ type: 'arc', to: pts[arc.end], cx: arc.cx, cy: arc.cy, clockwise: arc.clockwise });
+      i = arc.end;
+    } else {
+      moves.push({ type: 'line', to: pts[lineEnd] });
+      i = lineEnd;
+    }
+  }
+  return moves;
+};
+
+export interface GCodeProgram {
+  code: string;
+  lineMoves: number;
+  arcMoves: number;
+}
+
+const fmt = (value: number) => (Math.abs(value) < 5e-5 ? 0 : value).toFixed(4);
+
+// 2-axis contour program for the tool center path (cutter compensation off): rapid to the
+// lead-in start, plunge, approach normal to the path, one loop of the contour, retreat and retract.
+export const generateGCode = (toolpath: Toolpath, settings: CutterSettings, title: string = 'Cam profile'): GCodeProgram => {
+  const moves = fitMoves(toolpath.points, settings);
+  const { start, leadStart } = toolpath;
+  const lines = [
+    '%',
+    `(${title.replace(/[()]/g, '')})`,
+    `(Cutter radius ${settings.cutterRadius}, ${settings.side} profile, depth ${settings.depth})`,
+    'G21 G90 G17 G40 G94',
+    `G00 Z${fmt(settings.safeZ)}`,
+    `G00 X${fmt(leadStart.x)} Y${fmt(leadStart.y)}`,
+    `G01 Z${fmt(-Math.abs(settings.depth))} F${settings.plungeRate}`,
+    `G01 X${fmt(start.x)} Y${fmt(start.y)} F${settings.feedRate}`
+  ];
+
+  let from: Vec2 = start;
+  moves.forEach(move => {
+    if (move.type === 'line') {
+      lines.push(`G01 X${fmt(move.to.x)} Y${fmt(move.to.y)}`);
+    } else {
+      // I, J: arc center relative to the start of the move
+      lines.push(`${move.clockwise ? 'G02' : 'G03'} X${fmt(move.to.x)} Y${fmt(move.to.y)} I${fmt(move.cx - from.x)} J${fmt(move.cy - from.y)}`);
+    }
+    from = move.to;
+  });
+
+  lines.push(
+    `G01 X${fmt(leadStart.x)} Y${fmt(leadStart.y)}`,
+    `G00 Z${fmt(settings.safeZ)}`,
+    'M30',
+    '%'
+  );
+
+  return {
+    code: lines.join('\n'),
+    lineMoves: moves.filter(m => m.type === 'line').length,
+    arcMoves: moves.filter(m => m.type === 'arc').length
+  };
+};
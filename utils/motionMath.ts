@@ -1,4 +1,6 @@
 import { MotionType, MotionSegment, SimulationPoint } from '../types';
+import { getSegmentPolynomial, evaluatePolynomial } from './polynomialMath';
+import { getSegmentSpline, evaluateBSpline, matchSplineEnds, getSplineEndOrders } from './bspline';
 
 export const normalizeAngle = (angle: number) => {
   let a = angle % 360;
@@ -6,7 +8,97 @@ export const normalizeAngle = (angle: number) => {
   return a;
 };
 
-// Returns [s, v, a, j] normalized factors. 
+type Factors = [number, number, number, number];
+
+// Symmetric rise laws are defined on the first half (0 <= u <= 0.5) only.
+// The second half follows from s(u) = 1 - s(1-u), v(u) = v(1-u), a(u) = -a(1-u), j(u) = j(1-u).
+const mirrorHalf = (halfFn: (u: number) => Factors, u: number): Factors => {
+  if (u <= 0.5) return halfFn(u);
+  const [s, v, a, j] = halfFn(1 - u);
+  return [1 - s, v, -a, j];
+};
+
+// Modified Trapezoid: sine ramp (0-1/8), constant acceleration (1/8-3/8), sine ramp down (3/8-1/2).
+// Peak acceleration chosen so that s(1/2) = 1/2: Ca = 1 / (2 * (1/(8*pi) + 1/16)) ~= 4.8881
+const K_TRAP = 4 * Math.PI;
+const CA_TRAP = 0.5 / (1 / (8 * Math.PI) + 1 / 16);
+
+const modifiedTrapezoidHalf = (u: number): Factors => {
+  const A = CA_TRAP;
+  const k = K_TRAP;
+  // Values at the end of the first sine ramp
+  const v1 = A / k;
+  const s1 = (A / k) * (1 / 8 - 1 / k);
+  // Values at the end of the constant acceleration zone
+  const v2 = v1 + A / 4;
+  const s2 = s1 + v1 / 4 + A / 32;
+
+  if (u <= 1 / 8) {
+    return [
+      (A / k) * (u - Math.sin(k * u) / k),
+      (A / k) * (1 - Math.cos(k * u)),
+      A * Math.sin(k * u),
+      A * k * Math.cos(k * u)
+    ];
+  }
+  if (u <= 3 / 8) {
+    const w = u - 1 / 8;
+    return [s1 + v1 * w + 0.5 * A * w * w, v1 + A * w, A, 0];
+  }
+  const w = u - 3 / 8;
+  return [
+    s2 + v2 * w + (A / (k * k)) * (1 - Math.cos(k * w)),
+    v2 + (A / k) * Math.sin(k * w),
+    A * Math.cos(k * w),
+    -A * k * Math.sin(k * w)
+  ];
+};
+
+// Modified Sine: quarter sine of period 1/2 (0-1/8) blended into a sine of period 3/2 (1/8-7/8).
+// Peak acceleration chosen so that s(1/2) = 1/2: Ca = 1 / (2 * (1/(8*pi) + 1/(2*pi^2))) ~= 5.5280
+const K1_SINE = 4 * Math.PI;
+const K2_SINE = 4 * Math.PI / 3;
+const CA_SINE = 0.5 / (1 / (8 * Math.PI) + 1 / (2 * Math.PI * Math.PI));
+
+const modifiedSineHalf = (u: number): Factors => {
+  const A = CA_SINE;
+  const k1 = K1_SINE;
+  const k2 = K2_SINE;
+  const v1 = A / k1;
+  const s1 = (A / k1) * (1 / 8 - 1 / k1);
+
+  if (u <= 1 / 8) {
+    return [
+      (A / k1) * (u - Math.sin(k1 * u) / k1),
+      (A / k1) * (1 - Math.cos(k1 * u)),
+      A * Math.sin(k1 * u),
+      A * k1 * Math.cos(k1 * u)
+    ];
+  }
+  const w = u - 1 / 8;
+  return [
+    s1 + v1 * w + (A / (k2 * k2)) * (1 - Math.cos(k2 * w)),
+    v1 + (A / k2) * Math.sin(k2 * w),
+    A * Math.cos(k2 * w),
+    -A * k2 * Math.sin(k2 * w)
+  ];
+};
+
+// Custom Polynomial and B-Spline segments are defined by absolute displacements rather than a
+// normalized 0->1 rise. Returns [s, ds/du, d2s/du2, d3s/du3] evaluator, or null for normalized laws.
+export const getSegmentShape = (segment: MotionSegment): ((u: number) => Factors) | null => {
+  if (segment.type === MotionType.CUSTOM_POLYNOMIAL) {
+    const coefficients = getSegmentPolynomial(segment);
+    return coefficients ? (u: number) => evaluatePolynomial(coefficients, u) : null;
+  }
+  if (segment.type === MotionType.B_SPLINE || segment.type === MotionType.TABULATED) {
+    const curve = getSegmentSpline(segment);
+    return curve ? (u: number) => evaluateBSpline(curve, u) : null;
+  }
+  return null;
+};
+
+// Returns [s, v, a, j] normalized factors.
 const getMotionFactors = (type: MotionType, u: number): [number, number, number, number] => {
   switch (type) {
     case MotionType.DWELL:
@@ -57,96 +149,278 @@ const getMotionFactors = (type: MotionType, u: number): [number, number, number,
           60 - 360 * u + 360 * u2
         ];
       }
-      
+
+    case MotionType.MODIFIED_TRAPEZOID:
+      return mirrorHalf(modifiedTrapezoidHalf, u);
+
+    case MotionType.MODIFIED_SINE:
+      return mirrorHalf(modifiedSineHalf, u);
+
+    case MotionType.POLYNOMIAL_4567:
+      {
+        // Zero velocity, acceleration and jerk at both ends
+        const u2 = u * u;
+        const u3 = u2 * u;
+        const u4 = u3 * u;
+        const u5 = u4 * u;
+        const u6 = u5 * u;
+        const u7 = u6 * u;
+        return [
+          35 * u4 - 84 * u5 + 70 * u6 - 20 * u7,
+          140 * u3 - 420 * u4 + 420 * u5 - 140 * u6,
+          420 * u2 - 1680 * u3 + 2100 * u4 - 840 * u5,
+          840 * u - 5040 * u2 + 8400 * u3 - 4200 * u4
+        ];
+      }
+
     default:
       return [0, 0, 0, 0];
   }
 };
 
-export const calculateMotion = (
-  segments: MotionSegment[],
-  stepSize: number = 1
-): SimulationPoint[] => {
-  const points: SimulationPoint[] = [];
-  
-  // Pre-calculate cumulative lift and absolute angle boundaries
+export interface ProcessedSegment extends MotionSegment {
+  durationVal: number;
+  deltaLiftVal: number;
+  shape: ((u: number) => Factors) | null;
+  startAngle: number;
+  endAngle: number;
+  startLift: number;
+  endLift: number;
+}
+
+// Pre-calculate cumulative lift and absolute angle boundaries
+export const processSegments = (segments: MotionSegment[]): ProcessedSegment[] => {
   let cumulativeAngle = 0;
   let cumulativeLift = 0;
   
-  const processedSegments = segments.map(seg => {
+  return segments.map(seg => {
     const startAngle = cumulativeAngle;
-    const startLift = cumulativeLift;
+    let startLift = cumulativeLift;
     
     const duration = Number(seg.duration) || 0;
-    const deltaLift = Number(seg.deltaLift) || 0;
+    let deltaLift = Number(seg.deltaLift) || 0;
+
+    // Absolute shapes (polynomial, spline) set the lift level themselves
+    const shape = getSegmentShape(seg);
+    if (shape) {
+      startLift = shape(0)[0];
+      deltaLift = shape(1)[0] - startLift;
+    }
     
     cumulativeAngle += duration;
-    cumulativeLift += deltaLift;
+    cumulativeLift = startLift + deltaLift;
     
     return {
       ...seg,
       durationVal: duration,
       deltaLiftVal: deltaLift,
+      shape,
       startAngle,
       endAngle: cumulativeAngle,
       startLift,
       endLift: cumulativeLift
     };
   });
+};
 
-  const finalLift = processedSegments.length > 0 
-    ? processedSegments[processedSegments.length - 1].endLift 
-    : 0;
+const EPSILON = 1e-10;
 
-  let currentSegmentIndex = 0;
-  const epsilon = 1e-10;
+// Returns [s, v, a, j] of a segment at normalized position u (0..1).
+// Derivatives are per radian of cam angle.
+export const evaluateSegment = (segment: ProcessedSegment, u: number): Factors => {
+  const beta = segment.durationVal;
+  const betaRad = beta * (Math.PI / 180);
+  const uc = Math.max(0, Math.min(1, u));
 
-  for (let theta = 0; theta <= 360 + epsilon; theta += stepSize) {
-    const clampedTheta = Math.min(theta, 360);
+  if (segment.shape) {
+    // Shape is expressed in u, so d/dtheta = (1/beta) d/du
+    const [p, dp, d2p, d3p] = segment.shape(uc);
+    if (betaRad < EPSILON) return [p, 0, 0, 0];
+    return [p, dp / betaRad, d2p / (betaRad * betaRad), d3p / Math.pow(betaRad, 3)];
+  }
+
+  const h = segment.deltaLiftVal;
+  const [facS, facV, facA, facJ] = getMotionFactors(segment.type, uc);
+  
+  const s = segment.startLift + h * facS;
+  const v = betaRad < EPSILON ? 0 : (h / betaRad) * facV;
+  const a = betaRad < EPSILON ? 0 : (h / (betaRad * betaRad)) * facA;
+  const j = betaRad < EPSILON ? 0 : (h / Math.pow(betaRad, 3)) * facJ;
+  return [s, v, a, j];
+};
+
+export interface MotionState {
+  s: number;
+  v: number;
+  a: number;
+  j: number;
+}
+
+// Which one-sided limit to take exactly on a segment junction
+export type JunctionSide = 'before' | 'after';
 
-    // Find active segment for current theta
-    while (
-      currentSegmentIndex < processedSegments.length && 
-      clampedTheta > processedSegments[currentSegmentIndex].endAngle + epsilon
-    ) {
-      currentSegmentIndex++;
+// A motion program compiled once from the segment list and evaluated analytically at any angle
+export interface MotionProgram {
+  segments: ProcessedSegment[];
+  breakpoints: number[]; // Junction angles strictly inside (0, 360), ascending
+  evaluateMotion: (theta: number, side?: JunctionSide) => MotionState;
+}
+
+const toMotionState = ([s, v, a, j]: Factors): MotionState => ({ s, v, a, j });
+
+export const compileMotion = (segments: MotionSegment[]): MotionProgram => {
+  const processed = processSegments(segments);
+  // Zero-length segments only shift the lift level, they are never "active"
+  const active = processed.filter(seg => seg.durationVal > EPSILON);
+  const finalLift = processed.length > 0 ? processed[processed.length - 1].endLift : 0;
+
+  const breakpoints = Array.from(new Set(
+    active.flatMap(seg => [seg.startAngle, seg.endAngle]).filter(angle => angle > EPSILON && angle < 360 - EPSILON)
+  )).sort((p, q) => p - q);
+
+  const evaluateMotion = (theta: number, side: JunctionSide = 'before'): MotionState => {
+    // Keep 360 as the end of the cycle rather than wrapping it to 0
+    const t = theta >= 0 && theta <= 360 ? theta : normalizeAngle(theta);
+    const segment = active.find(seg =>
+      side === 'before' || t >= 360 - EPSILON
+        ? t <= seg.endAngle + EPSILON
+        : t < seg.endAngle - EPSILON
+    );
+
+    // If cycle not fully defined to 360, hold the final lift
+    if (!segment) return { s: finalLift, v: 0, a: 0, j: 0 };
+
+    return toMotionState(evaluateSegment(segment, (t - segment.startAngle) / segment.durationVal));
+  };
+
+  return { segments: processed, breakpoints, evaluateMotion };
+};
+
+// Clamped B-spline segments take their end control points from the neighbouring segments, so the
+// cycle keeps the continuity order of the spline degree across every junction (360° -> 0° included).
+// Splines are matched one after another on the updated program, so two adjacent splines agree.
+export const matchSplineJunctions = (segments: MotionSegment[]): MotionSegment[] =>
+  segments.reduce((current, seg, idx) => {
+    const duration = Number(seg.duration) || 0;
+    if (seg.type !== MotionType.B_SPLINE || !seg.spline || duration <= EPSILON || Math.abs(duration - 360) < 1e-6) {
+      return current;
     }
-    
-    // If cycle not fully defined to 360
-    if (currentSegmentIndex >= processedSegments.length) {
-      points.push({
-        theta: clampedTheta,
-        s: finalLift,
-        v: 0, a: 0, j: 0,
-        x: 0, y: 0, pressureAngle: 0, radiusOfCurvature: 0
-      });
-      continue;
+    const program = compileMotion(current);
+    const { startAngle, endAngle } = program.segments[idx];
+    if (endAngle > 360 + EPSILON) return current;
+
+    // Neighbour states in d/du of this segment: d^k s/du^k = beta^k d^k s/dtheta^k
+    const betaRad = duration * (Math.PI / 180);
+    const toSegmentU = ({ s, v, a, j }: MotionState) => [s, v * betaRad, a * betaRad ** 2, j * betaRad ** 3];
+    const before = program.evaluateMotion(startAngle > EPSILON ? startAngle : 360, 'before');
+    const after = program.evaluateMotion(endAngle < 360 - EPSILON ? endAngle : 0, 'after');
+
+    const controlPoints = matchSplineEnds(
+      seg.spline.controlPoints.map(p => Number(p) || 0),
+      seg.spline.degree,
+      toSegmentU(before),
+      toSegmentU(after)
+    );
+    if (!controlPoints) return current;
+
+    // Inner points keep their raw input so partly typed values survive
+    const orders = getSplineEndOrders(seg.spline.degree);
+    const n = controlPoints.length;
+    const next = [...current];
+    next[idx] = {
+      ...seg,
+      deltaLift: controlPoints[n - 1] - controlPoints[0],
+      spline: {
+        ...seg.spline,
+        controlPoints: seg.spline.controlPoints.map((p, k) => (k < orders || k >= n - orders ? controlPoints[k] : p))
+      }
+    };
+    return next;
+  }, segments);
+
+const toSimulationPoint = (theta: number, { s, v, a, j }: MotionState): SimulationPoint => ({
+  theta,
+  s, v, a, j,
+  x: 0, y: 0, pressureAngle: 0, radiusOfCurvature: 0
+});
+
+export interface SamplingOptions {
+  maxStep?: number; // Largest allowed spacing in degrees
+  minStep?: number; // Refinement stops below this spacing
+  tolerance?: number; // Allowed linear-interpolation error, relative to each quantity's range
+}
+
+const STATE_KEYS: (keyof MotionState)[] = ['s', 'v', 'a', 'j'];
+
+// Samples a motion program with more points where s/v/a/j bend quickly. Each junction is sampled
+// from both sides, so discontinuities show up as vertical steps instead of being smeared.
+export const sampleMotion = (
+  program: MotionProgram,
+  { maxStep = 1, minStep = 0.05, tolerance = 0.0005 }: SamplingOptions = {}
+): SimulationPoint[] => {
+  const knots = [0, ...program.breakpoints, 360];
+
+  // Coarse pass to find the magnitude of each quantity for the relative tolerance
+  const scale: MotionState = { s: EPSILON, v: EPSILON, a: EPSILON, j: EPSILON };
+  for (let theta = 0; theta <= 360; theta += maxStep) {
+    const state = program.evaluateMotion(theta);
+    STATE_KEYS.forEach(key => { scale[key] = Math.max(scale[key], Math.abs(state[key])); });
+  }
+
+  const interpolationError = (left: MotionState, mid: MotionState, right: MotionState) =>
+    Math.max(...STATE_KEYS.map(key => Math.abs(mid[key] - (left[key] + right[key]) / 2) / scale[key]));
+
+  const points: SimulationPoint[] = [];
+
+  const refine = (t0: number, st0: MotionState, t1: number, st1: MotionState) => {
+    const tm = (t0 + t1) / 2;
+    if (t1 - t0 > 2 * minStep) {
+      const stm = program.evaluateMotion(tm);
+      if (interpolationError(st0, stm, st1) > tolerance) {
+        refine(t0, st0, tm, stm);
+        points.push(toSimulationPoint(tm, stm));
+        refine(tm, stm, t1, st1);
+      }
     }
+  };
 
-    const segment = processedSegments[currentSegmentIndex];
-    const beta = segment.durationVal;
-    const h = segment.deltaLiftVal; 
-    const startLift = segment.startLift;
-    
-    let u = 0;
-    if (beta > epsilon) {
-      u = (clampedTheta - segment.startAngle) / beta;
+  for (let k = 0; k < knots.length - 1; k++) {
+    const start = knots[k];
+    const end = knots[k + 1];
+    const n = Math.max(1, Math.ceil((end - start) / maxStep - EPSILON));
+
+    let prevTheta = start;
+    let prevState = program.evaluateMotion(start, 'after');
+    const last = points[points.length - 1];
+    // Only duplicate the junction angle when the motion actually jumps there
+    if (!last || STATE_KEYS.some(key => Math.abs(last[key] - prevState[key]) > 1e-9 * Math.max(1, scale[key]))) {
+      points.push(toSimulationPoint(start, prevState));
     }
-    u = Math.max(0, Math.min(1, u));
-    
-    const [facS, facV, facA, facJ] = getMotionFactors(segment.type, u);
-    const betaRad = beta * (Math.PI / 180);
-    
-    const s = startLift + h * facS;
-    const v = betaRad < epsilon ? 0 : (h / betaRad) * facV;
-    const a = betaRad < epsilon ? 0 : (h / (betaRad * betaRad)) * facA;
-    const j = betaRad < epsilon ? 0 : (h / Math.pow(betaRad, 3)) * facJ;
-
-    points.push({
-      theta: clampedTheta,
-      s, v, a, j,
-      x: 0, y: 0, pressureAngle: 0, radiusOfCurvature: 0
-    });
+
+    for (let i = 1; i <= n; i++) {
+      const theta = i === n ? end : start + ((end - start) * i) / n;
+      const state = program.evaluateMotion(theta, 'before');
+      refine(prevTheta, prevState, theta, state);
+      points.push(toSimulationPoint(theta, state));
+      prevTheta = theta;
+      prevState = state;
+    }
+  }
+
+  return points;
+};
+
+// Fixed-step sampling, kept for consumers that need a uniform grid
+export const calculateMotion = (
+  segments: MotionSegment[],
+  stepSize: number = 1
+): SimulationPoint[] => {
+  const program = compileMotion(segments);
+  const points: SimulationPoint[] = [];
+
+  for (let theta = 0; theta <= 360 + EPSILON; theta += stepSize) {
+    const clampedTheta = Math.min(theta, 360);
+    points.push(toSimulationPoint(clampedTheta, program.evaluateMotion(clampedTheta)));
   }
   
   return points;
@@ -0,0 +1,80 @@
+import { MotionEvent, MotionSegment, MotionType } from '../types';
+
+// Laws that can be scaled to an arbitrary rise; absolute-shape types need their own editors
+export const WIZARD_MOTION_TYPES = Object.values(MotionType).filter(t =>
+  t !== MotionType.DWELL && t !== MotionType.CUSTOM_POLYNOMIAL && t !== MotionType.B_SPLINE &&
+  t !== MotionType.TABULATED
+);
+
+export interface WizardResult {
+  segments: MotionSegment[];
+  errors: string[]; // Program cannot be built
+  warnings: string[]; // Program is built but probably not what was meant
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Converts absolute-angle events into chained MotionSegments, filling every gap with a dwell.
+export const buildSegmentsFromEvents = (events: MotionEvent[]): WizardResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const parsed = events.map((ev, idx) => ({
+    ev,
+    label: `Event ${idx + 1} (${ev.kind})`,
+    start: Number(ev.startAngle),
+    end: Number(ev.endAngle),
+    lift: ev.lift === '' ? null : Number(ev.lift)
+  }));
+
+  parsed.forEach(({ label, start, end, lift }) => {
+    if (!isFinite(start) || !isFinite(end) || start < 0 || end > 360) {
+      errors.push(`${label}: angles must lie between 0° and 360°.`);
+    } else if (end <= start) {
+      errors.push(`${label}: end angle must be after start angle.`);
+    }
+    if (lift !== null && !isFinite(lift)) {
+      errors.push(`${label}: lift is not a number.`);
+    }
+  });
+  if (errors.length > 0) return { segments: [], errors, warnings };
+
+  parsed.sort((p, q) => p.start - q.start);
+  for (let i = 1; i < parsed.length; i++) {
+    if (parsed[i].start < parsed[i - 1].end - 1e-9) {
+      errors.push(`${parsed[i - 1].label} and ${parsed[i].label} overlap.`);
+    }
+  }
+  if (errors.length > 0) return { segments: [], errors, warnings };
+
+  const segments: MotionSegment[] = [];
+  const pushDwell = (duration: number) => {
+    if (duration > 1e-9) segments.push({ id: newId(), type: MotionType.DWELL, duration, deltaLift: 0 });
+  };
+
+  let cursor = 0;
+  let level = 0;
+  parsed.forEach(({ ev, label, start, end, lift }) => {
+    pushDwell(start - cursor);
+
+    let deltaLift: number;
+    if (ev.kind === 'rise') {
+      deltaLift = Math.abs(lift ?? 0);
+      if (deltaLift === 0) warnings.push(`${label}: rise has no lift.`);
+    } else {
+      deltaLift = lift === null ? -level : -Math.abs(lift);
+      if (level + deltaLift < -1e-9) warnings.push(`${label}: returns below zero lift.`);
+    }
+
+    segments.push({ id: newId(), type: ev.type, duration: end - start, deltaLift });
+    cursor = end;
+    level += deltaLift;
+  });
+  pushDwell(360 - cursor);
+
+  if (Math.abs(level) > 1e-9) {
+    warnings.push(`Cycle ends at lift ${level.toFixed(2)} instead of 0.`);
+  }
+
+  return { segments, errors, warnings };
+};
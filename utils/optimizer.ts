@@ -0,0 +1,173 @@
+import { CamParams, FollowerType, SimulationPoint } from '../types';
+import { calculateCamProfile, getContactRadius } from './camMath';
+import { getViolationKind } from './feasibility';
+
+export interface OptimizerConstraints {
+  maxPressureAngleRise: number; // degrees, applied where v >= 0
+  maxPressureAngleReturn: number; // degrees, applied where v < 0
+  minRadiusOfCurvature: number; // Smallest convex profile radius
+  minCurvatureRatio: number; // Smallest convex pitch radius / roller or face radius
+}
+
+export type ConstraintKey = 'paRise' | 'paReturn' | 'minRho' | 'ratio' | 'generable';
+
+export interface ConstraintCheck {
+  key: ConstraintKey;
+  label: string;
+  value: number; // Worst value over the cycle
+  limit: number;
+  ok: boolean;
+}
+
+export interface OptimizerResult {
+  params: CamParams;
+  checks: ConstraintCheck[]; // At the optimum
+  active: ConstraintKey[]; // Constraints that stop the base radius from shrinking further
+  evaluations: number; // Profile syntheses performed
+}
+
+export const DEFAULT_CONSTRAINTS: OptimizerConstraints = {
+  maxPressureAngleRise: 30,
+  maxPressureAngleReturn: 35,
+  minRadiusOfCurvature: 5,
+  minCurvatureRatio: 2
+};
+
+// Cases in which the profile equations have no real solution for the given dimensions
+const isValidGeometry = (p: CamParams) => {
+  const { baseRadius: rb, offset: d, pivotDistance: r1, followerLength: r3 } = p;
+  const r0 = getContactRadius(p);
+  if (rb <= 0) return false;
+  if (p.followerType === FollowerType.BARREL_ROLLER) return true;
+  if (r0 === null) {
+    return p.followerType === FollowerType.OSCILLATING_FLAT ? rb + d > 0 && r1 > rb + d : true;
+  }
+  return p.followerType.includes('Oscillating')
+    ? Math.abs(r1 - r3) < rb + r0 && rb + r0 < r1 + r3
+    : rb + r0 > Math.abs(d);
+};
+
+export const checkConstraints = (
+  profile: SimulationPoint[],
+  params: CamParams,
+  constraints: OptimizerConstraints
+): ConstraintCheck[] => {
+  const r0 = getContactRadius(params) ?? 0;
+  const hasRatio = r0 > 0;
+  let paRise = 0;
+  let paReturn = 0;
+  let minRho = Infinity;
+  let minRatio = Infinity;
+  let violations = 0;
+
+  profile.forEach(pt => {
+    const pa = Math.abs(pt.pressureAngle);
+    if (pt.v >= 0) paRise = Math.max(paRise, pa); else paReturn = Math.max(paReturn, pa);
+    if (getViolationKind(pt, params) || !isFinite(pt.radiusOfCurvature) || !isFinite(pa)) violations++;
+    // Concave arcs (negative radius) are not limited by these rules
+    if (pt.radiusOfCurvature > 0) minRho = Math.min(minRho, pt.radiusOfCurvature);
+    const rhoPitch = pt.radiusOfCurvature + r0;
+    if (hasRatio && rhoPitch > 0) minRatio = Math.min(minRatio, rhoPitch / r0);
+  });
+
+  const checks: ConstraintCheck[] = [
+    { key: 'paRise', label: 'Max PA (rise)', value: paRise, limit: constraints.maxPressureAngleRise, ok: paRise <= constraints.maxPressureAngleRise },
+    { key: 'paReturn', label: 'Max PA (return)', value: paReturn, limit: constraints.maxPressureAngleReturn, ok: paReturn <= constraints.maxPressureAngleReturn },
+    { key: 'minRho', label: 'Min ρ', value: minRho, limit: constraints.minRadiusOfCurvature, ok: minRho >= constraints.minRadiusOfCurvature },
+    { key: 'generable', label: 'Undercut / cusp', value: violations, limit: 0, ok: violations === 0 }
+  ];
+  if (hasRatio) {
+    checks.push({ key: 'ratio', label: 'Min ρpitch / r0', value: minRatio, limit: constraints.minCurvatureRatio, ok: minRatio >= constraints.minCurvatureRatio });
+  }
+  return checks;
+};
+
+// Smallest feasible base radius for fixed remaining geometry. Feasibility is not monotone in rb
+// for oscillating followers (the arm cannot reach a large base circle), so the range is scanned
+// coarsely before bisecting onto the first feasible value.
+const minimizeBaseRadius = (
+  motion: SimulationPoint[],
+  params: CamParams,
+  constraints: OptimizerConstraints,
+  count: () => void
+): { baseRadius: number; lowerBound: number } | null => {
+  const isOk = (baseRadius: number) => {
+    const p = { ...params, baseRadius };
+    if (!isValidGeometry(p)) return false;
+    count();
+    return checkConstraints(calculateCamProfile(motion, p), p, constraints).every(c => c.ok);
+  };
+
+  const lift = motion.reduce((max, pt) => Math.max(max, Math.abs(pt.s)), 0);
+  const lo = 0.1;
+  let hi = Math.max(params.baseRadius, lift, 1) * 4;
+  const steps = 40;
+  for (let attempt = 0; attempt < 3; attempt++, hi *= 2) {
+    let prev = lo;
+    for (let k = 1; k <= steps; k++) {
+      const rb = lo + ((hi - lo) * k) / steps;
+      if (!isOk(rb)) {
+        prev = rb;
+        continue;
+      }
+      let bad = prev;
+      let good = rb;
+      while (good - bad > 0.01) {
+        const mid = 0.5 * (bad + good);
+        if (isOk(mid)) good = mid; else bad = mid;
+      }
+      return { baseRadius: good, lowerBound: bad };
+    }
+  }
+  return null;
+};
+
+// Candidate values for the secondary geometry of each follower type
+const getGeometryCandidates = (params: CamParams, searchGeometry: boolean): Partial<CamParams>[] => {
+  if (!searchGeometry || params.followerType === FollowerType.BARREL_ROLLER) return [{}];
+  const scale = (base: number, factors: number[]) => factors.map(f => base * f);
+  const r0 = getContactRadius(params);
+  if (r0 !== null && params.followerType.includes('Translating')) {
+    const span = Math.max(params.baseRadius, r0);
+    return Array.from({ length: 21 }, (_, k) => ({ offset: (span * (k - 10)) / 10 }));
+  }
+  if (r0 !== null) {
+    return scale(params.pivotDistance, [0.6, 0.8, 1, 1.2, 1.4, 1.6]).flatMap(pivotDistance =>
+      scale(params.followerLength, [0.6, 0.8, 1, 1.2, 1.4, 1.6]).map(followerLength => ({ pivotDistance, followerLength }))
+    );
+  }
+  if (params.followerType === FollowerType.OSCILLATING_FLAT) {
+    return scale(params.pivotDistance, [0.5, 0.6, 0.7, 0.8, 0.9, 1, 1.2, 1.4, 1.6, 1.8, 2]).map(pivotDistance => ({ pivotDistance }));
+  }
+  return [{}];
+};
+
+// Searches for the smallest base radius meeting all constraints, optionally also choosing the
+// offset (translating, non-flat) or pivot distance / arm length (oscillating) that allow it.
+export const optimizeCamParams = (
+  motion: SimulationPoint[],
+  params: CamParams,
+  constraints: OptimizerConstraints,
+  searchGeometry: boolean
+): OptimizerResult | null => {
+  let evaluations = 0;
+  const count = () => { evaluations++; };
+
+  let best: { params: CamParams; lowerBound: number } | null = null;
+  getGeometryCandidates(params, searchGeometry).forEach(candidate => {
+    const trial = { ...params, ...candidate };
+    const found = minimizeBaseRadius(motion, trial, constraints, count);
+    if (found && (!best || found.baseRadius < best.params.baseRadius)) {
+      best = { params: { ...trial, baseRadius: Math.ceil(found.baseRadius * 100) / 100 }, lowerBound: found.lowerBound };
+    }
+  });
+  if (!best) return null;
+
+  const { params: optimum, lowerBound } = best as { params: CamParams; lowerBound: number };
+  const checks = checkConstraints(calculateCamProfile(motion, optimum), optimum, constraints);
+  const below = { ...optimum, baseRadius: lowerBound };
+  const active = isValidGeometry(below)
+    ? checkConstraints(calculateCamProfile(motion, below), below, constraints).filter(c => !c.ok).map(c => c.key)
+    : [];
+  return { params: optimum, checks, active, evaluations };
+};
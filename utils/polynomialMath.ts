@@ -0,0 +1,100 @@
+import { MotionSegment, PolynomialBoundary } from '../types';
+
+// Solves A x = b by Gaussian elimination with partial pivoting.
+// Returns null if the system is singular.
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(M[row][col]) > Math.abs(M[pivot][col])) pivot = row;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = M[row][col] / M[col][col];
+      for (let k = col; k <= n; k++) M[row][k] -= factor * M[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = M[row][n];
+    for (let k = row + 1; k < n; k++) sum -= M[row][k] * x[k];
+    x[row] = sum / M[row][row];
+  }
+  return x;
+};
+
+// Falling factorial k! / (k - m)!  (coefficient of u^(k-m) in the m-th derivative of u^k)
+const fallingFactorial = (k: number, m: number) => {
+  let f = 1;
+  for (let i = 0; i < m; i++) f *= k - i;
+  return f;
+};
+
+const parseOptional = (value: number | string | undefined): number | null => {
+  if (value === undefined || value === '' || value === '-') return null;
+  const num = Number(value);
+  return isFinite(num) ? num : null;
+};
+
+// Solves for the coefficients c[k] of s(u) = sum c[k] * u^k on the normalized interval 0 <= u <= 1.
+// Boundary derivatives are given per radian of cam angle, so the m-th derivative w.r.t. u is value * beta^m.
+// The polynomial degree is (number of conditions - 1): 5 for s/v/a, up to 7 when both jerks are given.
+export const solvePolynomialSegment = (boundary: PolynomialBoundary, betaRad: number): number[] | null => {
+  if (betaRad <= 0) return null;
+
+  const conditions: { u: number; order: number; value: number }[] = [];
+  const addCondition = (u: number, order: number, value: number | string | undefined, required: boolean) => {
+    const parsed = parseOptional(value);
+    if (parsed === null) {
+      if (required) conditions.push({ u, order, value: 0 });
+      return;
+    }
+    conditions.push({ u, order, value: parsed * Math.pow(betaRad, order) });
+  };
+
+  addCondition(0, 0, boundary.s0, true);
+  addCondition(0, 1, boundary.v0, true);
+  addCondition(0, 2, boundary.a0, true);
+  addCondition(0, 3, boundary.j0, false);
+  addCondition(1, 0, boundary.s1, true);
+  addCondition(1, 1, boundary.v1, true);
+  addCondition(1, 2, boundary.a1, true);
+  addCondition(1, 3, boundary.j1, false);
+
+  const n = conditions.length;
+  const A = conditions.map(({ u, order }) => {
+    const row = new Array(n).fill(0);
+    for (let k = order; k < n; k++) {
+      row[k] = fallingFactorial(k, order) * Math.pow(u, k - order);
+    }
+    return row;
+  });
+
+  return solveLinearSystem(A, conditions.map(c => c.value));
+};
+
+// Solves the polynomial for a segment using its duration, or null if it is not a valid Custom Polynomial.
+export const getSegmentPolynomial = (segment: MotionSegment): number[] | null => {
+  if (!segment.polynomial) return null;
+  const betaRad = (Number(segment.duration) || 0) * Math.PI / 180;
+  return solvePolynomialSegment(segment.polynomial, betaRad);
+};
+
+// Returns [p, dp/du, d2p/du2, d3p/du3] at u.
+export const evaluatePolynomial = (coeffs: number[], u: number): [number, number, number, number] => {
+  const result: [number, number, number, number] = [0, 0, 0, 0];
+  for (let order = 0; order < 4; order++) {
+    let sum = 0;
+    for (let k = coeffs.length - 1; k >= order; k--) {
+      sum = sum * u + coeffs[k] * fallingFactorial(k, order);
+    }
+    result[order] = sum;
+  }
+  return result;
+};
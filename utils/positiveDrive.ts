@@ -0,0 +1,76 @@
+import { CamParams, FeasibilityKind, FollowerType, SimulationPoint } from '../types';
+import { findAngleRuns } from './angleRanges';
+import { getContactRadius, getInitialArmAngle } from './camMath';
+import { getViolationKind } from './feasibility';
+
+export interface SurfaceSummary {
+  label: string;
+  minConvexRadius: number; // Smallest positive radius of curvature (Infinity if none)
+  minConcaveRadius: number; // Smallest magnitude of a negative radius (Infinity if none)
+  maxPressureAngle: number; // degrees, absolute
+}
+
+export interface DriveAnalysis {
+  mode: 'groove' | 'conjugate';
+  grooveWidth: number | null; // Groove only: constant normal width, 2 r0
+  // Conjugate only: fixed spacing of the two followers. Translating: distance between the two
+  // contact centers (or faces) along the stem axis. Oscillating: angle between the arms in degrees.
+  followerSpan: number | null;
+  surfaces: [SurfaceSummary, SurfaceSummary]; // Main profile, outer wall / second disc
+  secondaryViolations: { kind: FeasibilityKind; startAngle: number; endAngle: number }[]; // Ranges on the second surface
+}
+
+const summarize = (label: string, points: { radiusOfCurvature: number; pressureAngle: number }[]): SurfaceSummary =>
+  points.reduce<SurfaceSummary>((sum, p) => ({
+    label,
+    minConvexRadius: p.radiusOfCurvature > 0 ? Math.min(sum.minConvexRadius, p.radiusOfCurvature) : sum.minConvexRadius,
+    minConcaveRadius: p.radiusOfCurvature < 0 ? Math.min(sum.minConcaveRadius, -p.radiusOfCurvature) : sum.minConcaveRadius,
+    maxPressureAngle: Math.max(sum.maxPressureAngle, Math.abs(p.pressureAngle))
+  }), { label, minConvexRadius: Infinity, minConcaveRadius: Infinity, maxPressureAngle: 0 });
+
+// Distance (translating) or angle (oscillating) between the two followers of a conjugate cam.
+// Each follower sits at its zero-lift position plus its lift, and the two lifts add to sMin + sMax.
+const getFollowerSpan = (params: CamParams, liftSum: number) => {
+  const { baseRadius: rb, offset: d } = params;
+  const r0 = getContactRadius(params);
+  if (params.followerType.includes('Oscillating')) {
+    return (2 * getInitialArmAngle(params) * 180) / Math.PI + liftSum;
+  }
+  if (r0 !== null) return 2 * Math.sqrt(Math.pow(rb + r0, 2) - d * d) + liftSum;
+  // Flat face: where the face crosses the stem axis
+  const delta = ((params.faceAngle || 0) * Math.PI) / 180;
+  return (2 * (rb - d * Math.sin(delta))) / Math.cos(delta) + liftSum;
+};
+
+// Groove widths, wall / disc curvatures and undercut ranges of the second surface of a positive-drive cam
+export const analyzeDrive = (data: SimulationPoint[], params: CamParams): DriveAnalysis | null => {
+  const secondaryPoints = data.filter(p => p.secondary);
+  const isBarrel = params.followerType === FollowerType.BARREL_ROLLER;
+  if ((params.driveMode === 'spring' && !isBarrel) || secondaryPoints.length === 0) return null;
+
+  // Barrel cams always run in a groove
+  const isGroove = params.driveMode === 'groove' || isBarrel;
+  const r0 = getContactRadius(params) ?? 0;
+  const liftSum = Math.min(...data.map(p => p.s)) + Math.max(...data.map(p => p.s));
+
+  // The second surface uses the main profile's sign convention, so the same undercut test applies
+  const secondaryViolations = findAngleRuns(secondaryPoints, p => getViolationKind(p.secondary!, params)).map(run => ({
+    kind: run.kind,
+    startAngle: run.points[0].theta,
+    endAngle: run.points[run.points.length - 1].theta
+  }));
+
+  return {
+    mode: isGroove ? 'groove' : 'conjugate',
+    grooveWidth: isGroove ? 2 * r0 : null,
+    followerSpan: isGroove ? null : getFollowerSpan(params, liftSum),
+    surfaces: [
+      summarize(isBarrel ? 'Lower wall' : isGroove ? 'Inner wall' : 'Disc 1', data),
+      summarize(isBarrel ? 'Upper wall' : isGroove ? 'Outer wall' : 'Disc 2', secondaryPoints.map(p => p.secondary!))
+    ],
+    secondaryViolations
+  };
+};
+
+// Follower types that can run in a groove
+export const supportsGroove = (followerType: FollowerType) => followerType.includes('Roller');
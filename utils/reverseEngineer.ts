@@ -0,0 +1,176 @@
+import { CamParams, FollowerType, TabulatedDefinition } from '../types';
+import { getContactRadius, getInitialArmAngle } from './camMath';
+import { normalizeAngle } from './motionMath';
+
+export type ProfileFormat = 'xy' | 'polar';
+
+type Vec2 = { x: number; y: number };
+type TablePoint = TabulatedDefinition['points'][number];
+
+export interface ProfileParseResult {
+  points: Vec2[]; // Cam frame, ordered by polar angle
+  errors: string[];
+}
+
+export interface RecoveredMotion {
+  points: TablePoint[]; // Follower lift at each cam angle (degrees)
+  minLift: number; // Before any shift
+  maxLift: number;
+  errors: string[];
+}
+
+export interface RecoveryOptions {
+  step: number; // Cam angle step in degrees
+  phase: number; // Added to the recovered cam angles to line up with the design's 0°
+  zeroMinimum: boolean; // Shift the lift so its minimum is 0 (measured base circle differs from rb)
+}
+
+export const DEFAULT_RECOVERY_OPTIONS: RecoveryOptions = { step: 1, phase: 0, zeroMinimum: true };
+
+// Accepts "x, y" or "r, angle(deg)" rows separated by commas, semicolons, tabs or spaces.
+// A non-numeric first row is treated as a header; '#' starts a comment line.
+// Points may come in any order: a cam profile is star-shaped about the cam center, so they
+// are ordered by polar angle to close the outline.
+export const parseProfileCsv = (text: string, format: ProfileFormat): ProfileParseResult => {
+  const points: Vec2[] = [];
+  const errors: string[] = [];
+  let seenData = false;
+
+  text.split(/\r?\n/).forEach((raw, k) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) return;
+    const fields = line.split(/[,;\t ]+/).filter(f => f !== '');
+    const a = Number(fields[0]);
+    const b = Number(fields[1]);
+    if (fields.length < 2 || !isFinite(a) || !isFinite(b)) {
+      if (seenData) errors.push(`Line ${k + 1}: expected ${format === 'xy' ? '"x, y"' : '"r, angle"'}.`);
+      seenData = true;
+      return;
+    }
+    seenData = true;
+    points.push(format === 'xy'
+      ? { x: a, y: b }
+      : { x: a * Math.cos((b * Math.PI) / 180), y: a * Math.sin((b * Math.PI) / 180) });
+  });
+
+  points.sort((p, q) => Math.atan2(p.y, p.x) - Math.atan2(q.y, q.x));
+  if (points.length < 8) errors.push(`At least 8 profile points are required (found ${points.length}).`);
+  return { points, errors };
+};
+
+// Subdivides the closed outline so a roller cannot settle between sparse measured points
+const densify = (points: Vec2[], spacing: number): Vec2[] =>
+  points.flatMap((p, i) => {
+    const q = points[(i + 1) % points.length];
+    const pieces = Math.max(1, Math.ceil(Math.hypot(q.x - p.x, q.y - p.y) / spacing));
+    return Array.from({ length: pieces }, (_, k) => ({
+      x: p.x + ((q.x - p.x) * k) / pieces,
+      y: p.y + ((q.y - p.y) * k) / pieces
+    }));
+  });
+
+// Follower position where it rests on the profile (already turned into the fixed frame), as lift.
+// Each follower is brought in from outside until it touches the outline: the rest position is the
+// extreme over all outline points of the position at which that point alone would stop it.
+const getRestLift = (outline: Vec2[], params: CamParams): number | null => {
+  const { baseRadius: rb, offset: d, pivotDistance: r1, followerLength: r3 } = params;
+  const r0 = getContactRadius(params);
+  let best = -Infinity;
+
+  if (params.followerType === FollowerType.TRANSLATING_FLAT) {
+    // Face n.X = rb + s cos(delta), n = (cos delta, sin delta)
+    const delta = ((params.faceAngle || 0) * Math.PI) / 180;
+    outline.forEach(p => { best = Math.max(best, p.x * Math.cos(delta) + p.y * Math.sin(delta)); });
+    return (best - rb) / Math.cos(delta);
+  }
+
+  if (params.followerType === FollowerType.OSCILLATING_FLAT) {
+    // Face n.X = r1 sin(phi) - d with n = (sin phi, cos phi): a point stops the arm once
+    // (r1 - px) sin(phi) - py cos(phi) = d, i.e. phi = beta + asin(d / R)
+    outline.forEach(p => {
+      const R = Math.hypot(r1 - p.x, p.y);
+      if (R < Math.abs(d)) return;
+      best = Math.max(best, Math.atan2(p.y, r1 - p.x) + Math.asin(d / R));
+    });
+    return isFinite(best) ? ((best - getInitialArmAngle(params)) * 180) / Math.PI : null;
+  }
+
+  if (r0 === null) return null;
+
+  if (params.followerType.includes('Oscillating')) {
+    // Center C(phi) = (r1 - r3 cos(phi), r3 sin(phi)); |C - P| = r0 gives
+    // A cos(phi) + B sin(phi) = K, and the arm swinging in first meets the larger root
+    outline.forEach(p => {
+      const A = 2 * r3 * (r1 - p.x);
+      const B = 2 * r3 * p.y;
+      const K = Math.pow(r1 - p.x, 2) + r3 * r3 + p.y * p.y - r0 * r0;
+      const norm = Math.hypot(A, B);
+      if (norm === 0 || Math.abs(K) > norm) return;
+      const phi = Math.atan2(B, A) + Math.acos(K / norm);
+      if (phi > 0 && phi < Math.PI) best = Math.max(best, phi);
+    });
+    return isFinite(best) ? ((best - getInitialArmAngle(params)) * 180) / Math.PI : null;
+  }
+
+  const R_prime = Math.sqrt(Math.pow(rb + r0, 2) - d * d);
+  if (r0 === 0) {
+    // Knife edge: outermost crossing of the outline with the stem axis y = d
+    outline.forEach((p, i) => {
+      const q = outline[(i + 1) % outline.length];
+      if ((p.y - d) * (q.y - d) > 0 || p.y === q.y) return;
+      best = Math.max(best, p.x + ((d - p.y) * (q.x - p.x)) / (q.y - p.y));
+    });
+  } else {
+    // Circle centered on the stem axis y = d, coming in from +x
+    outline.forEach(p => {
+      const dy = p.y - d;
+      if (Math.abs(dy) <= r0) best = Math.max(best, p.x + Math.sqrt(r0 * r0 - dy * dy));
+    });
+  }
+  return isFinite(best) ? best - R_prime : null;
+};
+
+// Recovers s(theta) by turning the measured profile through a full cycle and placing the follower
+// on it at each cam angle (the inverse of the envelope synthesis in calculateProfilePoint).
+export const recoverMotion = (
+  profile: Vec2[],
+  params: CamParams,
+  { step, phase, zeroMinimum }: RecoveryOptions = DEFAULT_RECOVERY_OPTIONS
+): RecoveredMotion => {
+  if (params.followerType === FollowerType.BARREL_ROLLER) {
+    return { points: [], minLift: 0, maxLift: 0, errors: ['Barrel cams cannot be recovered from a plate profile.'] };
+  }
+  if (profile.length < 3 || step <= 0) return { points: [], minLift: 0, maxLift: 0, errors: [] };
+
+  const r0 = getContactRadius(params) ?? 0;
+  const outline = densify(profile, Math.max(0.05, r0 / 20));
+  const sgn = params.rotation === 'CW' ? 1 : -1;
+  const points: TablePoint[] = [];
+  const missed: number[] = [];
+
+  for (let theta = 0; theta < 360 - 1e-9; theta += step) {
+    // Fixed frame = Rot(-sgn theta) cam frame
+    const t = (-sgn * theta * Math.PI) / 180;
+    const cos = Math.cos(t);
+    const sin = Math.sin(t);
+    const fixed = outline.map(p => ({ x: p.x * cos - p.y * sin, y: p.x * sin + p.y * cos }));
+    const s = getRestLift(fixed, params);
+    if (s === null || !isFinite(s)) missed.push(theta);
+    else points.push({ theta: normalizeAngle(theta + phase), s });
+  }
+
+  const errors = missed.length > 0
+    ? [`The follower does not reach the profile at ${missed.length} of ${points.length + missed.length} angles; check the follower geometry and profile units.`]
+    : [];
+  if (points.length === 0) return { points, minLift: 0, maxLift: 0, errors };
+
+  const minLift = Math.min(...points.map(p => p.s));
+  const maxLift = Math.max(...points.map(p => p.s));
+  const shift = zeroMinimum ? minLift : 0;
+  return {
+    points: points.map(p => ({ theta: p.theta, s: p.s - shift })).sort((p, q) => p.theta - q.theta),
+    minLift,
+    maxLift,
+    errors
+  };
+};
@@ -0,0 +1,172 @@
+import { CamParams, FollowerType, SimulationPoint } from '../types';
+import { getContactCenter, getFollowerPointVelocity } from './camMath';
+import { getAngleRanges } from './angleRanges';
+import { analyzeDynamics, DynamicsSettings, getLoadedContact, getNormalForce } from './dynamics';
+import { getAngularVelocity } from './timeKinematics';
+
+type Vec2 = [number, number];
+
+export interface RollerSettings {
+  rollerMass: number; // kg, taken as a solid disc of the roller radius
+  traction: number; // Friction coefficient between roller and cam
+  bearingFriction: number; // Coefficient of the roller bearing
+  pinRadius: number; // Bearing radius, mm
+}
+
+export const DEFAULT_ROLLER_SETTINGS: RollerSettings = {
+  rollerMass: 0.05,
+  traction: 0.1,
+  bearingFriction: 0.003,
+  pinRadius: 4
+};
+
+export interface RollerSlipPoint {
+  theta: number;
+  contactAngle: number; // Contact position on the roller rim, degrees from the follower's +x direction (arm: along the arm)
+  rollingSpeed: number; // Cam surface speed relative to the roller center, mm/s
+  requiredSpin: number; // Roller speed for pure rolling, rad/s
+  angularAcceleration: number; // Roller acceleration for pure rolling, rad/s²
+  requiredTorque: number; // J |alpha| + bearing drag, N·mm
+  availableTorque: number; // mu N r0, N·mm
+  slidingVelocity: number; // Surface slip with the roller inertia and traction limit, mm/s
+  onSecondary: boolean;
+}
+
+export interface RollerSlipAnalysis {
+  points: RollerSlipPoint[];
+  skidRanges: { startAngle: number; endAngle: number }[]; // Pure rolling needs more torque than traction gives
+  maxSlidingVelocity: { value: number; theta: number };
+  rollerInertia: number; // kg·mm²
+}
+
+export const isRollerFollower = (followerType: FollowerType) => followerType.includes('Roller');
+
+// Pure rolling needs the roller rim to match the cam surface speed relative to the roller center:
+//   omega_r r0 = t . (v_cam(B) - v_C),  t = unit tangent at the contact B
+// The roller spin is then integrated over a few cycles with friction limited to mu N r0, and the
+// bearing drag mu_b N r_pin opposing the spin; any mismatch left over is the sliding velocity.
+export const analyzeRollerSlip = (
+  data: SimulationPoint[],
+  params: CamParams,
+  dynamicsSettings: DynamicsSettings,
+  settings: RollerSettings,
+  rpm: number
+): RollerSlipAnalysis | null => {
+  const dynamics = analyzeDynamics(data, params, dynamicsSettings, rpm);
+  const r0 = params.followerRadius;
+  if (!dynamics || !isRollerFollower(params.followerType) || r0 <= 0 || rpm <= 0) return null;
+
+  const sgn = params.rotation === 'CW' ? 1 : -1;
+  const omega = getAngularVelocity(rpm);
+  const isBarrel = params.followerType === FollowerType.BARREL_ROLLER;
+  const isOscillating = params.followerType.includes('Oscillating');
+  const isConjugate = params.driveMode === 'conjugate' && !isBarrel;
+  const liftSum = Math.min(...data.map(p => p.s)) + Math.max(...data.map(p => p.s));
+  const inertia = 0.5 * settings.rollerMass * r0 * r0; // kg·mm²
+
+  const kinematics = data.map((p, i) => {
+    const force = dynamics.points[i].force;
+    const contact = getLoadedContact(p, force);
+    const onSecondary = contact !== p;
+
+    // Contact B, roller center C and their velocities per unit cam speed, in the fixed frame
+    let B: Vec2;
+    let C: Vec2;
+    let camVelocity: Vec2;
+    let centerVelocity: Vec2;
+    if (isBarrel) {
+      // Developed frame moving with the roller: the cam surface slides past at -sgn Rp
+      const u = (sgn * params.baseRadius * p.theta * Math.PI) / 180;
+      B = [contact.x - u, contact.y];
+      C = [0, p.s];
+      camVelocity = [-sgn * params.baseRadius, 0];
+      centerVelocity = [0, p.v];
+    } else {
+      const t = (-sgn * p.theta * Math.PI) / 180;
+      B = [contact.x * Math.cos(t) - contact.y * Math.sin(t), contact.x * Math.sin(t) + contact.y * Math.cos(t)];
+      camVelocity = [sgn * B[1], -sgn * B[0]];
+      if (onSecondary && isConjugate) {
+        // Second roller: complementary lift, mirrored across the stem axis or the line of centers
+        const [mx, my] = getContactCenter(params, liftSum - p.s);
+        C = isOscillating ? [mx, -my] : [-mx, my];
+      } else {
+        C = getContactCenter(params, p.s);
+      }
+      centerVelocity = getFollowerPointVelocity(params, p.v, C);
+    }
+
+    const n: Vec2 = [(C[0] - B[0]) / r0, (C[1] - B[1]) / r0];
+    const tangent: Vec2 = [-n[1], n[0]];
+    const rollingSpeed = tangent[0] * (camVelocity[0] - centerVelocity[0]) + tangent[1] * (camVelocity[1] - centerVelocity[1]);
+    // Rim position relative to the follower: arms are measured from the pivot-to-center direction
+    const armAngle = isOscillating ? Math.atan2(C[1], C[0] - params.pivotDistance) : 0;
+    const contactAngle = ((Math.atan2(-n[1], -n[0]) - armAngle) * 180) / Math.PI;
+
+    return {
+      theta: p.theta,
+      contactAngle: ((contactAngle % 360) + 360) % 360,
+      spin: (rollingSpeed * omega) / r0,
+      rollingSpeed: rollingSpeed * omega,
+      normalForce: getNormalForce(force, contact.pressureAngle),
+      onSecondary
+    };
+  });
+
+  // d(spin)/dt = omega d(spin)/dtheta from the nearest distinct neighbours
+  const n = kinematics.length;
+  const neighbour = (i: number, dir: number) => {
+    let j = i;
+    for (let k = 1; k < n && kinematics[j].theta % 360 === kinematics[i].theta % 360; k++) j = (i + dir * k + n) % n;
+    return j;
+  };
+  const acceleration = kinematics.map((k, i) => {
+    const ahead = neighbour(i, 1);
+    const behind = neighbour(i, -1);
+    const dTheta = ((((kinematics[ahead].theta - kinematics[behind].theta) % 360) + 360) % 360) * Math.PI / 180;
+    return dTheta > 0 ? (omega * (kinematics[ahead].spin - kinematics[behind].spin)) / dTheta : 0;
+  });
+
+  // Torques in N·mm; J alpha in kg·mm²/s² is 1000 times that
+  const drag = (normalForce: number) => settings.bearingFriction * normalForce * settings.pinRadius;
+  const traction = (normalForce: number) => settings.traction * normalForce * r0;
+
+  // Stick-slip spin over three cycles from pure rolling at theta = 0; the last cycle is reported
+  const sliding = new Array<number>(n).fill(0);
+  let spin = kinematics[0].spin;
+  for (let cycle = 0; cycle < 3; cycle++) {
+    for (let i = 1; i < n; i++) {
+      const target = kinematics[i].spin;
+      const dt = ((kinematics[i].theta - kinematics[i - 1].theta) * Math.PI) / 180 / omega;
+      if (dt > 0) {
+        const resist = drag(kinematics[i].normalForce) * Math.sign(spin);
+        const needed = (inertia * (target - spin)) / dt / 1000 + resist;
+        const limit = traction(kinematics[i].normalForce);
+        spin = Math.abs(needed) <= limit ? target : spin + ((Math.sign(needed) * limit - resist) * dt * 1000) / inertia;
+      }
+      sliding[i] = (target - spin) * r0;
+    }
+    sliding[0] = sliding[n - 1];
+  }
+
+  const points = kinematics.map((k, i) => ({
+    theta: k.theta,
+    contactAngle: k.contactAngle,
+    rollingSpeed: k.rollingSpeed,
+    requiredSpin: k.spin,
+    angularAcceleration: acceleration[i],
+    requiredTorque: (inertia * Math.abs(acceleration[i])) / 1000 + drag(k.normalForce),
+    availableTorque: traction(k.normalForce),
+    slidingVelocity: sliding[i],
+    onSecondary: k.onSecondary
+  }));
+
+  return {
+    points,
+    skidRanges: getAngleRanges(points, p => p.requiredTorque > p.availableTorque),
+    maxSlidingVelocity: points.reduce(
+      (best, p) => (Math.abs(p.slidingVelocity) > Math.abs(best.value) ? { value: p.slidingVelocity, theta: p.theta } : best),
+      { value: 0, theta: 0 }
+    ),
+    rollerInertia: inertia
+  };
+};
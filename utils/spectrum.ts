@@ -0,0 +1,88 @@
+import { SimulationPoint } from '../types';
+
+export type SpectrumQuantity = 's' | 'a';
+
+export interface HarmonicCoefficient {
+  n: number; // Harmonic order (multiples of cam speed)
+  a: number; // Cosine coefficient
+  b: number; // Sine coefficient
+  amplitude: number; // sqrt(a^2 + b^2)
+  phase: number; // atan2(b, a) in degrees
+}
+
+export interface Spectrum {
+  quantity: SpectrumQuantity;
+  mean: number; // a0 / 2
+  harmonics: HarmonicCoefficient[];
+}
+
+// Fourier series over one cam revolution: f(theta) = mean + sum(a_n cos(n theta) + b_n sin(n theta)).
+// The samples are treated as piecewise linear and each piece is integrated exactly, so the result
+// stays accurate for high harmonics and for non-uniform (adaptive) sample spacing.
+export const computeSpectrum = (
+  points: SimulationPoint[],
+  quantity: SpectrumQuantity,
+  maxHarmonic: number
+): Spectrum => {
+  const toRad = Math.PI / 180;
+  let integral = 0;
+  const cosSums = new Array(maxHarmonic + 1).fill(0);
+  const sinSums = new Array(maxHarmonic + 1).fill(0);
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const t0 = points[i].theta * toRad;
+    const t1 = points[i + 1].theta * toRad;
+    const dt = t1 - t0;
+    if (dt <= 0) continue; // Duplicate angle at a junction
+
+    const f0 = points[i][quantity];
+    const f1 = points[i + 1][quantity];
+    const m = (f1 - f0) / dt;
+    integral += 0.5 * (f0 + f1) * dt;
+
+    for (let n = 1; n <= maxHarmonic; n++) {
+      // Antiderivatives of (f0 + m (t - t0)) cos(n t) and ... sin(n t)
+      const c0 = Math.cos(n * t0), c1 = Math.cos(n * t1);
+      const s0 = Math.sin(n * t0), s1 = Math.sin(n * t1);
+      cosSums[n] += (f1 * s1 - f0 * s0) / n + (m * (c1 - c0)) / (n * n);
+      sinSums[n] += (-f1 * c1 + f0 * c0) / n + (m * (s1 - s0)) / (n * n);
+    }
+  }
+
+  const harmonics: HarmonicCoefficient[] = [];
+  for (let n = 1; n <= maxHarmonic; n++) {
+    const a = cosSums[n] / Math.PI;
+    const b = sinSums[n] / Math.PI;
+    harmonics.push({
+      n, a, b,
+      amplitude: Math.sqrt(a * a + b * b),
+      phase: Math.atan2(b, a) * 180 / Math.PI
+    });
+  }
+
+  return { quantity, mean: integral / (2 * Math.PI), harmonics };
+};
+
+// Evaluates the truncated Fourier series at a cam angle in degrees
+export const reconstructSeries = (spectrum: Spectrum, theta: number): number => {
+  const t = theta * Math.PI / 180;
+  return spectrum.harmonics.reduce(
+    (sum, { n, a, b }) => sum + a * Math.cos(n * t) + b * Math.sin(n * t),
+    spectrum.mean
+  );
+};
+
+// RMS difference between the original samples and the truncated series, weighted by angle spacing
+export const getReconstructionError = (points: SimulationPoint[], spectrum: Spectrum): number => {
+  let sumSq = 0;
+  let span = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    const dt = points[i + 1].theta - points[i].theta;
+    if (dt <= 0) continue;
+    const e0 = points[i][spectrum.quantity] - reconstructSeries(spectrum, points[i].theta);
+    const e1 = points[i + 1][spectrum.quantity] - reconstructSeries(spectrum, points[i + 1].theta);
+    sumSq += 0.5 * (e0 * e0 + e1 * e1) * dt;
+    span += dt;
+  }
+  return span > 0 ? Math.sqrt(sumSq / span) : 0;
+};
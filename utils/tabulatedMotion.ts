@@ -0,0 +1,202 @@
+import { MotionSegment, MotionType, TabulatedDefinition } from '../types';
+import { evaluateBasisFunctions, evaluateBSpline, getSegmentSpline } from './bspline';
+import { normalizeAngle } from './motionMath';
+import { solveLinearSystem } from './polynomialMath';
+
+// Quintic fit: displacement is C4, so jerk is still continuous (C1) between knots
+export const TABULATED_DEGREE = 5;
+
+type TablePoint = TabulatedDefinition['points'][number];
+
+export interface TableParseResult {
+  points: TablePoint[]; // Absolute cam angles in degrees, sorted
+  errors: string[];
+}
+
+export interface TabulatedResidual {
+  theta: number; // Absolute cam angle in degrees
+  s: number; // Tabulated value
+  fit: number; // Smoothed value
+  residual: number; // s - fit
+}
+
+export interface TabulatedFitReport {
+  samples: TabulatedResidual[];
+  rms: number;
+  maxAbs: number;
+}
+
+// Accepts "angle, displacement" rows separated by commas, semicolons, tabs or spaces.
+// A non-numeric first row is treated as a header; '#' starts a comment line.
+export const parseTabulatedCsv = (text: string): TableParseResult => {
+  const points: TablePoint[] = [];
+  const errors: string[] = [];
+  let seenData = false;
+
+  text.split(/\r?\n/).forEach((raw, k) => {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#')) return;
+    const fields = line.split(/[,;\t ]+/).filter(f => f !== '');
+    const theta = Number(fields[0]);
+    const s = Number(fields[1]);
+    if (fields.length < 2 || !isFinite(theta) || !isFinite(s)) {
+      if (seenData) errors.push(`Line ${k + 1}: expected "angle, displacement".`);
+      seenData = true;
+      return;
+    }
+    seenData = true;
+    points.push({ theta, s });
+  });
+
+  points.sort((p, q) => p.theta - q.theta);
+  if (points.length < TABULATED_DEGREE + 1) {
+    errors.push(`At least ${TABULATED_DEGREE + 1} data points are required (found ${points.length}).`);
+  }
+  return { points, errors };
+};
+
+export const getDefaultControlPointCount = (pointCount: number) =>
+  Math.max(TABULATED_DEGREE + 1, Math.min(40, Math.floor(pointCount / 3)));
+
+// Third differences of the control polygon, wrapped around for a periodic spline
+const getPenaltyRows = (n: number, periodic: boolean): number[][] => {
+  const rows: number[][] = [];
+  const count = periodic ? n : n - 3;
+  for (let i = 0; i < count; i++) {
+    const row = new Array(n).fill(0);
+    [-1, 3, -3, 1].forEach((w, k) => { row[(i + k) % n] += w; });
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Penalized least squares (P-spline): (B^T B + lambda (m/n) D^T D) c = B^T s.
+// The m/n factor keeps the smoothing weight comparable when the table density changes.
+// Returns the control points, or null if the system is singular.
+export const fitTabulated = (table: TabulatedDefinition, duration: number): number[] | null => {
+  const { points, smoothing } = table;
+  const n = Math.round(table.controlPointCount);
+  const periodic = Math.abs(duration - 360) < 1e-6;
+  if (duration <= 0 || n < TABULATED_DEGREE + 1 || points.length === 0) return null;
+
+  const A: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+  const b = new Array(n).fill(0);
+  points.forEach(({ theta, s }) => {
+    const row = evaluateBasisFunctions(n, TABULATED_DEGREE, periodic, theta / duration);
+    for (let i = 0; i < n; i++) {
+      if (row[i] === 0) continue;
+      b[i] += row[i] * s;
+      for (let k = 0; k < n; k++) A[i][k] += row[i] * row[k];
+    }
+  });
+
+  const lambda = Math.max(0, smoothing) * (points.length / n);
+  getPenaltyRows(n, periodic).forEach(row => {
+    for (let i = 0; i < n; i++) {
+      if (row[i] === 0) continue;
+      for (let k = 0; k < n; k++) A[i][k] += lambda * row[i] * row[k];
+    }
+  });
+
+  return solveLinearSystem(A, b);
+};
+
+// Recomputes the stored spline of a Tabulated segment after its table or settings changed
+export const refitTabulatedSegment = (segment: MotionSegment): MotionSegment => {
+  if (!segment.table) return segment;
+  const controlPoints = fitTabulated(segment.table, Number(segment.duration) || 0);
+  if (!controlPoints) return { ...segment, spline: undefined };
+  const curve = getSegmentSpline({ ...segment, spline: { degree: TABULATED_DEGREE, controlPoints } });
+  const deltaLift = curve ? evaluateBSpline(curve, 1)[0] - evaluateBSpline(curve, 0)[0] : 0;
+  return { ...segment, deltaLift, spline: { degree: TABULATED_DEGREE, controlPoints } };
+};
+
+// Builds a Tabulated segment from absolute-angle data.
+// A full-cycle table becomes one periodic 360° segment; otherwise the segment spans the data range.
+export const createTabulatedSegment = (
+  id: string,
+  points: TablePoint[],
+  fullCycle: boolean,
+  controlPointCount = getDefaultControlPointCount(points.length),
+  smoothing = 0.01
+): { segment: MotionSegment | null; errors: string[] } => {
+  if (points.length < TABULATED_DEGREE + 1) {
+    return { segment: null, errors: [`At least ${TABULATED_DEGREE + 1} data points are required.`] };
+  }
+
+  const start = points[0].theta;
+  const span = points[points.length - 1].theta - start;
+  if (!fullCycle && span <= 0) {
+    return { segment: null, errors: ['The table must cover a positive angle range.'] };
+  }
+  if (fullCycle && span > 360) {
+    return { segment: null, errors: ['A full-cycle table must not span more than 360°.'] };
+  }
+
+  const duration = fullCycle ? 360 : span;
+  const tablePoints = points
+    .map(p => ({ theta: fullCycle ? normalizeAngle(p.theta) : p.theta - start, s: p.s }))
+    .sort((p, q) => p.theta - q.theta);
+  const segment = refitTabulatedSegment({
+    id,
+    type: MotionType.TABULATED,
+    duration,
+    deltaLift: 0,
+    table: { points: tablePoints, controlPointCount, smoothing }
+  });
+
+  if (!segment.spline) {
+    return { segment: null, errors: ['The fit is singular: reduce the control points or increase smoothing.'] };
+  }
+  return { segment, errors: [] };
+};
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Places a partial-table segment at the table's own start angle after the existing segments.
+// A gap before it becomes a dwell at the previous lift; a table reaching back into the existing
+// segments, or past 360°, is rejected.
+export const placeTabulatedSegment = (
+  segments: MotionSegment[],
+  segment: MotionSegment,
+  startAngle: number
+): { segments: MotionSegment[] | null; errors: string[] } => {
+  const occupied = segments.reduce((sum, s) => sum + (Number(s.duration) || 0), 0);
+  const endAngle = startAngle + (Number(segment.duration) || 0);
+  if (startAngle < 0) {
+    return { segments: null, errors: ['A partial table must use cam angles from 0° to 360°.'] };
+  }
+  if (startAngle < occupied - 1e-6) {
+    return {
+      segments: null,
+      errors: [`The table starts at ${startAngle}°, inside the existing segments (they run to ${occupied}°).`]
+    };
+  }
+  if (endAngle > 360 + 1e-6) {
+    return { segments: null, errors: [`The table ends at ${endAngle}°, past the end of the cycle.`] };
+  }
+
+  const gap = startAngle - occupied;
+  const dwell: MotionSegment[] = gap > 1e-6 ? [{ id: newId(), type: MotionType.DWELL, duration: gap, deltaLift: 0 }] : [];
+  return { segments: [...segments, ...dwell, segment], errors: [] };
+};
+
+// Fit residuals at the tabulated angles. Large or structured residuals mean the smoothed
+// derivatives (v, a, j) do not follow the data and should not be trusted.
+export const getTabulatedFitReport = (segment: MotionSegment, startAngle = 0): TabulatedFitReport | null => {
+  if (!segment.table || !segment.spline) return null;
+  const curve = getSegmentSpline(segment);
+  const duration = Number(segment.duration) || 0;
+  if (!curve || duration <= 0) return null;
+
+  const samples = segment.table.points.map(({ theta, s }) => {
+    const fit = evaluateBSpline(curve, theta / duration)[0];
+    return { theta: startAngle + theta, s, fit, residual: s - fit };
+  });
+  const sumSq = samples.reduce((sum, r) => sum + r.residual * r.residual, 0);
+  return {
+    samples,
+    rms: samples.length > 0 ? Math.sqrt(sumSq / samples.length) : 0,
+    maxAbs: samples.reduce((max, r) => Math.max(max, Math.abs(r.residual)), 0)
+  };
+};
@@ -0,0 +1,83 @@
+import { SimulationPoint } from '../types';
+
+// Translating followers move in mm, oscillating followers in degrees of arm rotation
+export type DisplacementUnit = 'mm' | 'deg';
+
+export const STANDARD_GRAVITY = 9.80665; // m/s^2
+
+export interface TimeDomainPoint {
+  theta: number; // Cam angle in degrees
+  t: number; // Time since theta = 0 in ms
+  s: number; // mm or deg
+  v: number; // mm/s or deg/s
+  a: number; // m/s^2 or rad/s^2
+  j: number; // m/s^3 or rad/s^3
+  aG: number; // Acceleration in g (translating only, 0 otherwise)
+}
+
+export interface TimeDomainUnits {
+  s: string;
+  v: string;
+  a: string;
+  j: string;
+}
+
+export const getTimeDomainUnits = (unit: DisplacementUnit): TimeDomainUnits =>
+  unit === 'mm'
+    ? { s: 'mm', v: 'mm/s', a: 'm/s²', j: 'm/s³' }
+    : { s: '°', v: '°/s', a: 'rad/s²', j: 'rad/s³' };
+
+// Camshaft angular velocity in rad/s
+export const getAngularVelocity = (rpm: number) => (rpm * 2 * Math.PI) / 60;
+
+// Duration of one cam revolution in ms
+export const getCyclePeriod = (rpm: number) => (rpm > 0 ? 60000 / rpm : 0);
+
+// SimulationPoint derivatives are per radian of cam angle: d/dt = omega * d/dtheta
+export const toTimeDomain = (points: SimulationPoint[], rpm: number, unit: DisplacementUnit): TimeDomainPoint[] => {
+  const omega = getAngularVelocity(rpm);
+  const period = getCyclePeriod(rpm);
+  const toRad = Math.PI / 180;
+
+  return points.map(({ theta, s, v, a, j }) => {
+    const t = (theta / 360) * period;
+    if (unit === 'mm') {
+      const accel = (a * omega * omega) / 1000;
+      return {
+        theta, t, s,
+        v: v * omega,
+        a: accel,
+        j: (j * Math.pow(omega, 3)) / 1000,
+        aG: accel / STANDARD_GRAVITY
+      };
+    }
+    return {
+      theta, t, s,
+      v: v * omega,
+      a: a * toRad * omega * omega,
+      j: j * toRad * Math.pow(omega, 3),
+      aG: 0
+    };
+  });
+};
+
+export interface PeakValue {
+  value: number; // Signed value with the largest magnitude
+  theta: number;
+}
+
+export interface TimeDomainPeaks {
+  v: PeakValue;
+  a: PeakValue;
+  aG: PeakValue;
+  j: PeakValue;
+}
+
+export const getTimeDomainPeaks = (points: TimeDomainPoint[]): TimeDomainPeaks => {
+  const peak = (key: keyof Omit<TimeDomainPoint, 'theta' | 't'>): PeakValue =>
+    points.reduce<PeakValue>(
+      (best, p) => (Math.abs(p[key]) > Math.abs(best.value) ? { value: p[key], theta: p.theta } : best),
+      { value: 0, theta: 0 }
+    );
+  return { v: peak('v'), a: peak('a'), aG: peak('aG'), j: peak('j') };
+};
@@ -0,0 +1,71 @@
+import { CamDefinition } from '../types';
+import { getAngleRanges } from './angleRanges';
+import { compileMotion, normalizeAngle, MotionProgram } from './motionMath';
+
+// Cam angle seen by a cam whose 0° is at machine angle `phase`
+export const toCamAngle = (machineAngle: number, phase: number) => normalizeAngle(machineAngle - phase);
+
+export interface TimingRow {
+  machineAngle: number;
+  [camId: string]: number;
+}
+
+export interface Interference {
+  camA: string; // Cam ids
+  camB: string;
+  startAngle: number; // Machine angles in degrees; start > end means the range wraps through 0°
+  endAngle: number;
+}
+
+interface CompiledCam {
+  cam: CamDefinition;
+  program: MotionProgram;
+  phase: number;
+}
+
+const compileCams = (cams: CamDefinition[]): CompiledCam[] =>
+  cams.map(cam => ({ cam, program: compileMotion(cam.segments), phase: Number(cam.params.startAngleOffset) || 0 }));
+
+// Follower displacement of every cam on a shared machine-angle axis
+export const buildTimingDiagram = (cams: CamDefinition[], stepSize: number = 1): TimingRow[] => {
+  const compiled = compileCams(cams);
+  const rows: TimingRow[] = [];
+  for (let machineAngle = 0; machineAngle <= 360 + 1e-9; machineAngle += stepSize) {
+    const angle = Math.min(machineAngle, 360);
+    const row: TimingRow = { machineAngle: angle };
+    compiled.forEach(({ cam, program, phase }) => {
+      row[cam.id] = program.evaluateMotion(toCamAngle(angle, phase)).s;
+    });
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Followers with a shared-zone lift occupy the common space while their lift is at or above it.
+// Two such followers interfere wherever both are inside the space at the same machine angle.
+export const findInterferences = (cams: CamDefinition[], stepSize: number = 0.25): Interference[] => {
+  const sharing = compileCams(cams).filter(({ cam }) =>
+    cam.sharedZoneLift !== '' && isFinite(Number(cam.sharedZoneLift))
+  );
+  const interferences: Interference[] = [];
+  const steps = Math.round(360 / stepSize);
+
+  for (let i = 0; i < sharing.length; i++) {
+    for (let k = i + 1; k < sharing.length; k++) {
+      const A = sharing[i];
+      const B = sharing[k];
+      const inZone = (c: CompiledCam, machineAngle: number) =>
+        c.program.evaluateMotion(toCamAngle(machineAngle, c.phase)).s >= Number(c.cam.sharedZoneLift);
+
+      const samples = Array.from({ length: steps }, (_, n) => {
+        const angle = n * stepSize;
+        return { theta: angle, clash: inZone(A, angle) && inZone(B, angle) };
+      });
+
+      getAngleRanges(samples, p => p.clash).forEach(({ startAngle, endAngle }) =>
+        interferences.push({ camA: A.cam.id, camB: B.cam.id, startAngle, endAngle })
+      );
+    }
+  }
+  return interferences;
+};
@@ -0,0 +1,226 @@
+import { CamParams, MotionSegment, MotionType } from '../types';
+import { compileMotion, MotionProgram } from './motionMath';
+import { DynamicsSettings, getTravelScale, isPositiveDrive } from './dynamics';
+import { getAngularVelocity, getCyclePeriod } from './timeKinematics';
+
+export interface VibrationSettings {
+  dof: 1 | 2;
+  followerStiffness: number; // Cam-to-follower train stiffness k1, N/mm
+  secondMass: number; // Output mass m2 of the two-DOF model, kg
+  secondStiffness: number; // Link k2 between the follower and the output, N/mm
+  secondDamping: number; // Damping across k2, N·s/m
+  cycles: number; // Cam revolutions integrated; the last one is reported
+}
+
+export const MAX_VIBRATION_CYCLES = 20;
+// Integration budget: fewer cycles are run when a slow cam with a stiff train would exceed it
+const MAX_TOTAL_STEPS = 200000;
+
+export const DEFAULT_VIBRATION_SETTINGS: VibrationSettings = {
+  dof: 1,
+  followerStiffness: 200,
+  secondMass: 0.2,
+  secondStiffness: 500,
+  secondDamping: 5,
+  cycles: 4
+};
+
+export interface VibrationPoint {
+  theta: number;
+  intended: number; // Cam lift (follower displacement units)
+  actual: number; // Output mass position in the same units
+  error: number; // actual - quasi-static elastic position
+}
+
+export interface DwellResidual {
+  startAngle: number;
+  endAngle: number;
+  residual: number; // Largest |error| during the dwell
+}
+
+export interface VibrationResult {
+  points: VibrationPoint[]; // Last cycle, one sample per degree
+  naturalFrequencies: number[]; // Hz, ascending
+  maxError: { value: number; theta: number };
+  dwells: DwellResidual[];
+  separated: boolean; // Contact lost during the last cycle (spring-loaded followers only)
+  cycles: number; // Revolutions actually integrated (may be below the setting, see MAX_TOTAL_STEPS)
+}
+
+// Laws swapped into the rise / return segments when comparing
+export const COMPARABLE_LAWS: MotionType[] = [
+  MotionType.PARABOLIC,
+  MotionType.HARMONIC,
+  MotionType.CYCLOIDAL,
+  MotionType.POLYNOMIAL_345,
+  MotionType.MODIFIED_TRAPEZOID,
+  MotionType.MODIFIED_SINE,
+  MotionType.POLYNOMIAL_4567
+];
+
+export interface LawComparison {
+  type: MotionType;
+  maxError: number;
+  maxResidual: number;
+  separated: boolean;
+}
+
+type State = [number, number, number, number]; // x1, x1', x2, x2' in mm and mm/s
+
+// Undamped natural frequencies from det(K - w^2 M) = 0; stiffness in N/mm, mass in kg
+const getNaturalFrequencies = (m1: number, m2: number, k1: number, k2: number, ks: number, dof: 1 | 2) => {
+  const toHz = (w2: number) => Math.sqrt(Math.max(0, w2) * 1000) / (2 * Math.PI);
+  if (dof === 1) return [toHz((k1 + ks) / m1)];
+  const a = (k1 + k2) / m1;
+  const d = (k2 + ks) / m2;
+  const root = Math.sqrt(Math.pow(a - d, 2) / 4 + (k2 * k2) / (m1 * m2));
+  return [toHz((a + d) / 2 - root), toHz((a + d) / 2 + root)];
+};
+
+// Follower train excited by the cam lift y(t):
+//   1 DOF: m1 x1'' = Fc - ks x1 - F0 - Fext
+//   2 DOF: m1 x1'' = Fc - F12,  m2 x2'' = F12 - ks x2 - F0 - Fext
+// with Fc = k1 (y - x1) + c1 (y' - x1') and F12 = k2 (x1 - x2) + c2 (x1' - x2').
+// A spring-loaded follower cannot pull on the cam, so Fc is clamped at zero (jump).
+// Integrated with fixed-step RK4 at a step well below the highest natural period.
+export const simulateVibration = (
+  program: MotionProgram,
+  params: CamParams,
+  dynamics: DynamicsSettings,
+  settings: VibrationSettings,
+  rpm: number
+): VibrationResult | null => {
+  const { dof, followerStiffness: k1, secondMass: m2, secondStiffness: k2, secondDamping: c2 } = settings;
+  const positiveDrive = isPositiveDrive(params);
+  // Positive-drive cams have no return spring
+  const { mass: m1, damping: c1, externalLoad } = dynamics;
+  const ks = positiveDrive ? 0 : dynamics.springRate;
+  const preload = positiveDrive ? 0 : dynamics.preload;
+  if (rpm <= 0 || m1 <= 0 || k1 <= 0 || (dof === 2 && (m2 <= 0 || k2 <= 0))) return null;
+
+  const scale = getTravelScale(params);
+  const omega = getAngularVelocity(rpm);
+  const period = getCyclePeriod(rpm) / 1000; // s
+
+  // Positions in mm measured from the lowest lift, as for the spring in analyzeDynamics
+  let sMin = Infinity;
+  for (let theta = 0; theta <= 360; theta += 0.5) sMin = Math.min(sMin, program.evaluateMotion(theta).s);
+  const excite = (t: number) => {
+    const theta = (((t / period) % 1) + 1) % 1 * 360;
+    const { s, v } = program.evaluateMotion(theta);
+    return { y: (s - sMin) * scale, dy: v * scale * omega };
+  };
+
+  const derivative = (t: number, [x1, v1, x2, v2]: State): State => {
+    const { y, dy } = excite(t);
+    let contact = k1 * (y - x1) + (c1 * (dy - v1)) / 1000;
+    if (!positiveDrive) contact = Math.max(0, contact);
+    if (dof === 1) {
+      return [v1, (1000 * (contact - ks * x1 - preload - externalLoad)) / m1, 0, 0];
+    }
+    const link = k2 * (x1 - x2) + (c2 * (v1 - v2)) / 1000;
+    return [v1, (1000 * (contact - link)) / m1, v2, (1000 * (link - ks * x2 - preload - externalLoad)) / m2];
+  };
+
+  // Quasi-static output position: the train in series compressed by the spring and load
+  const stiffness = dof === 1 ? k1 : (k1 * k2) / (k1 + k2);
+  const quasiStatic = (y: number) => (y - (preload + externalLoad) / stiffness) / (1 + ks / stiffness);
+
+  const naturalFrequencies = getNaturalFrequencies(m1, m2, k1, k2, ks, dof);
+  const highest = naturalFrequencies[naturalFrequencies.length - 1];
+  const stepsPerDegree = Math.min(500, Math.max(1, Math.ceil((40 * highest * period) / 360)));
+  const dt = period / (360 * stepsPerDegree);
+  const cycles = Math.min(
+    Math.max(1, Math.min(MAX_VIBRATION_CYCLES, Math.round(settings.cycles))),
+    Math.max(1, Math.floor(MAX_TOTAL_STEPS / (360 * stepsPerDegree)))
+  );
+
+  // Start at rest in the quasi-static position at theta = 0
+  const start = excite(0);
+  const out0 = quasiStatic(start.y);
+  const force0 = preload + externalLoad + ks * out0;
+  const x1Start = start.y - force0 / k1;
+  let state: State = [x1Start, start.dy, dof === 1 ? x1Start : out0, start.dy];
+
+  const points: VibrationPoint[] = [];
+  let separated = false;
+  const totalDegrees = cycles * 360;
+  for (let degree = 0; degree < totalDegrees; degree++) {
+    const isLastCycle = degree >= totalDegrees - 360;
+    if (isLastCycle) {
+      const { y } = excite(degree * stepsPerDegree * dt);
+      const output = dof === 1 ? state[0] : state[2];
+      points.push({
+        theta: degree % 360,
+        intended: y / scale + sMin,
+        actual: output / scale + sMin,
+        error: (output - quasiStatic(y)) / scale
+      });
+    }
+    for (let k = 0; k < stepsPerDegree; k++) {
+      const t = (degree * stepsPerDegree + k) * dt;
+      const k1s = derivative(t, state);
+      const k2s = derivative(t + dt / 2, state.map((x, i) => x + (dt / 2) * k1s[i]) as State);
+      const k3s = derivative(t + dt / 2, state.map((x, i) => x + (dt / 2) * k2s[i]) as State);
+      const k4s = derivative(t + dt, state.map((x, i) => x + dt * k3s[i]) as State);
+      state = state.map((x, i) => x + (dt / 6) * (k1s[i] + 2 * k2s[i] + 2 * k3s[i] + k4s[i])) as State;
+      if (isLastCycle && !positiveDrive) {
+        const { y, dy } = excite(t + dt);
+        if (k1 * (y - state[0]) + (c1 * (dy - state[1])) / 1000 < 0) separated = true;
+      }
+    }
+  }
+  // Close the cycle at 360° with the final state
+  const { y: yEnd } = excite(totalDegrees * stepsPerDegree * dt);
+  const outEnd = dof === 1 ? state[0] : state[2];
+  points.push({ theta: 360, intended: yEnd / scale + sMin, actual: outEnd / scale + sMin, error: (outEnd - quasiStatic(yEnd)) / scale });
+
+  // Dwell segments, with neighbouring dwells merged
+  const dwells: DwellResidual[] = [];
+  program.segments
+    .filter(seg => seg.type === MotionType.DWELL && seg.durationVal > 0)
+    .forEach(seg => {
+      const last = dwells[dwells.length - 1];
+      if (last && Math.abs(last.endAngle - seg.startAngle) < 1e-6) last.endAngle = seg.endAngle;
+      else dwells.push({ startAngle: seg.startAngle, endAngle: seg.endAngle, residual: 0 });
+    });
+  dwells.forEach(dwell => {
+    dwell.residual = points
+      .filter(p => p.theta >= dwell.startAngle && p.theta <= dwell.endAngle)
+      .reduce((max, p) => Math.max(max, Math.abs(p.error)), 0);
+  });
+
+  return {
+    points,
+    naturalFrequencies,
+    maxError: points.reduce((best, p) => (Math.abs(p.error) > Math.abs(best.value) ? { value: p.error, theta: p.theta } : best),
+      { value: 0, theta: 0 }),
+    dwells,
+    separated,
+    cycles
+  };
+};
+
+// Re-runs the simulation with every standard rise / return segment switched to each law in turn,
+// keeping the timing and lifts of the current program.
+export const compareMotionLaws = (
+  segments: MotionSegment[],
+  params: CamParams,
+  dynamics: DynamicsSettings,
+  settings: VibrationSettings,
+  rpm: number
+): LawComparison[] => {
+  if (!segments.some(seg => COMPARABLE_LAWS.includes(seg.type))) return [];
+  return COMPARABLE_LAWS.flatMap(type => {
+    const swapped = segments.map(seg => (COMPARABLE_LAWS.includes(seg.type) ? { ...seg, type } : seg));
+    const result = simulateVibration(compileMotion(swapped), params, dynamics, settings, rpm);
+    return result
+      ? [{
+        type,
+        maxError: Math.abs(result.maxError.value),
+        maxResidual: result.dwells.reduce((max, d) => Math.max(max, d.residual), 0),
+        separated: result.separated
+      }]
+      : [];
+  });
+};